@@ -0,0 +1,60 @@
+import { NextRequest, NextResponse } from "next/server";
+import fs from "node:fs/promises";
+import path from "node:path";
+import { ScoreParseError, midiToTexts, parseScore } from "@/lib/music";
+import { scoreToAbc } from "@/lib/abc";
+import { resolveMediaPath } from "@/lib/media";
+
+export const runtime = "nodejs";
+
+export async function POST(request: NextRequest) {
+  try {
+    const contentType = request.headers.get("content-type") ?? "";
+    let text = "";
+    let fileRef = "";
+    let title = "";
+
+    if (contentType.includes("application/json")) {
+      const body = (await request.json()) as {
+        text?: string;
+        id?: string;
+        file?: string;
+        title?: string;
+      };
+      text = body.text ?? "";
+      fileRef = body.file ?? (body.id ? `${body.id}.mid` : "");
+      title = body.title ?? "";
+    } else {
+      text = await request.text();
+    }
+
+    if (!text.trim() && fileRef) {
+      const midiBuffer = await fs.readFile(resolveMediaPath(fileRef));
+      text = midiToTexts(midiBuffer).combinedText;
+    }
+    if (!text.trim()) {
+      return NextResponse.json(
+        { error: "缺少文本内容 text 或 MIDI 文件引用（id 或 file）" },
+        { status: 400 },
+      );
+    }
+
+    const abc = scoreToAbc(parseScore(text), title);
+    const fileName = `${path.parse(fileRef).name || "score"}.abc`;
+    return new NextResponse(abc, {
+      headers: {
+        "Content-Type": "text/vnd.abc; charset=utf-8",
+        "Content-Disposition": `attachment; filename="${fileName}"`,
+      },
+    });
+  } catch (error) {
+    if (error instanceof ScoreParseError) {
+      return NextResponse.json(
+        { error: error.message, diagnostics: error.diagnostics },
+        { status: 400 },
+      );
+    }
+    const message = error instanceof Error ? error.message : "ABC 导出失败";
+    return NextResponse.json({ error: message }, { status: 400 });
+  }
+}
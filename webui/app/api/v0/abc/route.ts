@@ -0,0 +1,110 @@
+import { NextRequest, NextResponse } from "next/server";
+import { abcToText } from "@/lib/abc";
+import {
+  ScoreParseError,
+  parseScore,
+  persistScoreMedia,
+  scoreToMidiBuffer,
+} from "@/lib/music";
+import { SoundfontError } from "@/lib/soundfonts";
+import { soundfontErrorResponse } from "@/app/api/v0/soundfonts/errors";
+
+export const runtime = "nodejs";
+
+function normalizeFormat(
+  value: string | null | undefined,
+): "wav" | "mp3" | "mid" {
+  if (!value) {
+    return "wav";
+  }
+  const format = value.toLowerCase();
+  if (format === "mid" || format === "midi") {
+    return "mid";
+  }
+  return format === "mp3" ? "mp3" : "wav";
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const contentType = request.headers.get("content-type") ?? "";
+    let abc = "";
+    let format = normalizeFormat(request.nextUrl.searchParams.get("format"));
+    let soundfont = request.nextUrl.searchParams.get("soundfont") ?? undefined;
+
+    if (contentType.includes("multipart/form-data")) {
+      const formData = await request.formData();
+      const file = formData.get("file");
+      if (!file || !(file instanceof File)) {
+        return NextResponse.json(
+          { error: "缺少上传的 ABC 文件（字段名 file）" },
+          { status: 400 },
+        );
+      }
+      abc = await file.text();
+      const formFormat = formData.get("format");
+      if (typeof formFormat === "string" && formFormat) {
+        format = normalizeFormat(formFormat);
+      }
+      const formSoundfont = formData.get("soundfont");
+      if (typeof formSoundfont === "string" && formSoundfont) {
+        soundfont = formSoundfont;
+      }
+    } else if (contentType.includes("application/json")) {
+      const body = (await request.json()) as {
+        abc?: string;
+        format?: string;
+        soundfont?: string;
+      };
+      abc = body.abc ?? "";
+      if (body.format) {
+        format = normalizeFormat(body.format);
+      }
+      soundfont = body.soundfont ?? soundfont;
+    } else {
+      abc = await request.text();
+    }
+
+    if (!abc.trim()) {
+      return NextResponse.json(
+        { error: "缺少 ABC 内容（上传 file 或提供 abc）" },
+        { status: 400 },
+      );
+    }
+
+    const result = abcToText(abc);
+    const score = parseScore(result.text);
+
+    if (format === "mid") {
+      return new NextResponse(scoreToMidiBuffer(score), {
+        headers: {
+          "Content-Type": "audio/midi",
+          "Content-Disposition": 'attachment; filename="score.mid"',
+        },
+      });
+    }
+
+    const media = await persistScoreMedia(score, format, soundfont);
+    return NextResponse.json({
+      title: result.title,
+      text: result.text,
+      voices: result.voices,
+      id: media.id,
+      midiUrl: media.midiUrl,
+      audioUrl: media.audioUrl,
+      format,
+      diagnostics: [...result.diagnostics, ...(score.diagnostics ?? [])],
+    });
+  } catch (error) {
+    if (error instanceof ScoreParseError) {
+      return NextResponse.json(
+        { error: error.message, diagnostics: error.diagnostics },
+        { status: 400 },
+      );
+    }
+    if (error instanceof SoundfontError) {
+      return soundfontErrorResponse(error);
+    }
+    const message = error instanceof Error ? error.message : "ABC 转换失败";
+    return NextResponse.json({ error: message }, { status: 400 });
+  }
+}
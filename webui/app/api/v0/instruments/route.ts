@@ -0,0 +1,10 @@
+import { NextRequest, NextResponse } from "next/server";
+import { GM_INSTRUMENTS, suggestInstruments } from "@/lib/instruments";
+
+export const runtime = "nodejs";
+
+export async function GET(request: NextRequest) {
+  const query = request.nextUrl.searchParams.get("q")?.trim();
+  const instruments = query ? suggestInstruments(query, 5) : GM_INSTRUMENTS;
+  return NextResponse.json({ instruments });
+}
@@ -1,25 +1,96 @@
 import { NextRequest, NextResponse } from "next/server";
 import fs from "node:fs/promises";
-import path from "node:path";
-import { midiToTexts } from "@/lib/music";
+import {
+  MidiImportOptions,
+  MidiParseError,
+  checkMidiSize,
+  midiToTexts,
+} from "@/lib/music";
+import { resolveMediaPath } from "@/lib/media";
 
 export const runtime = "nodejs";
 
-function resolveMediaPath(input: string) {
-  const name = input.trim();
-  const fileName = name.startsWith("/api/v0/file/")
-    ? name.replace("/api/v0/file/", "")
-    : name;
-  if (!/^[A-Za-z0-9-]+\.(mid|midi)$/.test(fileName)) {
-    throw new Error("MIDI 文件名无效");
+type ImportFields = {
+  grid?: string;
+  tracks?: string | (number | string)[];
+  skipEmpty?: string | boolean;
+  bars?: unknown;
+  time?: unknown;
+  notation?: string;
+};
+
+const FIELD_NAMES = [
+  "grid",
+  "tracks",
+  "skipEmpty",
+  "bars",
+  "time",
+  "notation",
+] as const;
+
+function parseTimeValue(value: string) {
+  return value
+    .split(":")
+    .reduce((total, part) => total * 60 + Number(part), 0);
+}
+
+function parseRange(value: unknown, label: string): [number, number] {
+  if (typeof value !== "string") {
+    throw new Error(
+      `无效的${label}范围，应为字符串: ${JSON.stringify(value)}`,
+    );
   }
-  return path.join(process.cwd(), ".media", fileName.replace(".midi", ".mid"));
+  const match = value.trim().match(/^([\d.:]+)(?:\s*-\s*([\d.:]+))?$/);
+  if (!match) {
+    throw new Error(`无效的${label}范围: ${value}`);
+  }
+  const start = parseTimeValue(match[1]);
+  const end = parseTimeValue(match[2] ?? match[1]);
+  if (Number.isNaN(start) || Number.isNaN(end)) {
+    throw new Error(`无效的${label}范围: ${value}`);
+  }
+  return [start, end];
+}
+
+function toImportOptions(fields: ImportFields): MidiImportOptions {
+  const items =
+    typeof fields.tracks === "string"
+      ? fields.tracks.split(",")
+      : fields.tracks ?? [];
+  const tracks = items
+    .map((item) => (typeof item === "string" ? item.trim() : item))
+    .filter((item) => item !== "")
+    .map((item) =>
+      typeof item === "string" && /^\d+$/.test(item) ? Number(item) : item,
+    );
+  return {
+    grid: fields.grid || undefined,
+    tracks: tracks.length > 0 ? tracks : undefined,
+    skipEmpty:
+      fields.skipEmpty === true ||
+      fields.skipEmpty === "1" ||
+      fields.skipEmpty === "true",
+    bars:
+      fields.bars !== undefined ? parseRange(fields.bars, "小节") : undefined,
+    seconds:
+      fields.time !== undefined ? parseRange(fields.time, "时间") : undefined,
+    notation: ["abs", "absolute"].includes(fields.notation ?? "")
+      ? "abs"
+      : undefined,
+  };
 }
 
 export async function POST(request: NextRequest) {
   try {
     const contentType = request.headers.get("content-type") ?? "";
     let fileRef = "";
+    const fields: ImportFields = {};
+    for (const name of FIELD_NAMES) {
+      const value = request.nextUrl.searchParams.get(name);
+      if (value) {
+        fields[name] = value;
+      }
+    }
 
     if (contentType.includes("multipart/form-data")) {
       const formData = await request.formData();
@@ -30,16 +101,34 @@ export async function POST(request: NextRequest) {
           { status: 400 },
         );
       }
+      for (const name of FIELD_NAMES) {
+        const value = formData.get(name);
+        if (typeof value === "string" && value) {
+          fields[name] = value;
+        }
+      }
+      checkMidiSize(file.size);
       const buffer = Buffer.from(await file.arrayBuffer());
-      const result = midiToTexts(buffer);
+      const result = midiToTexts(buffer, toImportOptions(fields));
       return NextResponse.json({
         text: result.combinedText,
         tracks: result.tracks,
+        tempoMap: result.tempoMap,
+        timeSignatureMap: result.timeSignatureMap,
+        warnings: result.warnings,
       });
     }
 
     if (contentType.includes("application/json")) {
-      const body = (await request.json()) as { id?: string; file?: string };
+      const body = (await request.json()) as ImportFields & {
+        id?: string;
+        file?: string;
+      };
+      for (const name of FIELD_NAMES) {
+        if (body[name] !== undefined) {
+          Object.assign(fields, { [name]: body[name] });
+        }
+      }
       if (body.file) {
         fileRef = body.file;
       } else if (body.id) {
@@ -58,13 +147,22 @@ export async function POST(request: NextRequest) {
 
     const filePath = resolveMediaPath(fileRef);
     const midiBuffer = await fs.readFile(filePath);
-    const result = midiToTexts(midiBuffer);
+    const result = midiToTexts(midiBuffer, toImportOptions(fields));
 
     return NextResponse.json({
       text: result.combinedText,
       tracks: result.tracks,
+      tempoMap: result.tempoMap,
+      timeSignatureMap: result.timeSignatureMap,
+      warnings: result.warnings,
     });
   } catch (error) {
+    if (error instanceof MidiParseError) {
+      return NextResponse.json(
+        { error: error.message, code: error.code },
+        { status: error.code === "too-large" ? 413 : 400 },
+      );
+    }
     const message =
       error instanceof Error ? error.message : "MIDI 转文字失败";
     return NextResponse.json({ error: message }, { status: 400 });
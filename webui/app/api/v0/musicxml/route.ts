@@ -0,0 +1,45 @@
+import { NextRequest, NextResponse } from "next/server";
+import { musicXmlToTexts } from "@/lib/musicxml";
+
+export const runtime = "nodejs";
+
+export async function POST(request: NextRequest) {
+  try {
+    const contentType = request.headers.get("content-type") ?? "";
+    let input: Buffer | string;
+
+    if (contentType.includes("multipart/form-data")) {
+      const formData = await request.formData();
+      const file = formData.get("file");
+      if (!file || !(file instanceof File)) {
+        return NextResponse.json(
+          { error: "缺少上传的 MusicXML 文件（字段名 file）" },
+          { status: 400 },
+        );
+      }
+      input = Buffer.from(await file.arrayBuffer());
+    } else if (contentType.includes("application/json")) {
+      const body = (await request.json()) as { xml?: string };
+      input = body.xml ?? "";
+    } else {
+      input = Buffer.from(await request.arrayBuffer());
+    }
+
+    if (input.length === 0) {
+      return NextResponse.json(
+        { error: "缺少 MusicXML 内容（上传 file 或提供 xml）" },
+        { status: 400 },
+      );
+    }
+
+    const result = musicXmlToTexts(input);
+    return NextResponse.json({
+      text: result.combinedText,
+      parts: result.parts,
+    });
+  } catch (error) {
+    const message =
+      error instanceof Error ? error.message : "MusicXML 转文字失败";
+    return NextResponse.json({ error: message }, { status: 400 });
+  }
+}
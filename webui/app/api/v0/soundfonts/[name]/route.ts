@@ -0,0 +1,45 @@
+import { NextResponse } from "next/server";
+import {
+  SoundfontError,
+  deleteSoundfont,
+  getSoundfont,
+} from "@/lib/soundfonts";
+import { soundfontErrorResponse } from "../errors";
+
+export const runtime = "nodejs";
+
+export async function GET(
+  _request: Request,
+  { params }: { params: Promise<{ name: string }> },
+) {
+  const { name } = await params;
+  try {
+    const soundfont = await getSoundfont(name);
+    return NextResponse.json({ soundfont });
+  } catch (error) {
+    if (error instanceof SoundfontError) {
+      return soundfontErrorResponse(error);
+    }
+    const message =
+      error instanceof Error ? error.message : "读取音色库失败";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
+
+export async function DELETE(
+  _request: Request,
+  { params }: { params: Promise<{ name: string }> },
+) {
+  const { name } = await params;
+  try {
+    await deleteSoundfont(name);
+    return NextResponse.json({ deleted: name });
+  } catch (error) {
+    if (error instanceof SoundfontError) {
+      return soundfontErrorResponse(error);
+    }
+    const message =
+      error instanceof Error ? error.message : "删除音色库失败";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
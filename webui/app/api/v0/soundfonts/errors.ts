@@ -0,0 +1,17 @@
+import { NextResponse } from "next/server";
+import type { SoundfontError, SoundfontErrorCode } from "@/lib/soundfonts";
+
+const ERROR_STATUS: Record<SoundfontErrorCode, number> = {
+  "invalid-name": 400,
+  "not-found": 404,
+  "invalid-file": 400,
+  "too-large": 413,
+  exists: 409,
+};
+
+export function soundfontErrorResponse(error: SoundfontError) {
+  return NextResponse.json(
+    { error: error.message, code: error.code },
+    { status: ERROR_STATUS[error.code] },
+  );
+}
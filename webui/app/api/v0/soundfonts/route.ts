@@ -0,0 +1,88 @@
+import { NextRequest, NextResponse } from "next/server";
+import {
+  SoundfontError,
+  checkSoundfontSize,
+  listSoundfonts,
+  saveSoundfont,
+} from "@/lib/soundfonts";
+import { soundfontErrorResponse } from "./errors";
+
+export const runtime = "nodejs";
+
+function toSoundfontName(fileName: string) {
+  return fileName
+    .replace(/\.sf2$/i, "")
+    .replace(/[^A-Za-z0-9_-]+/g, "-")
+    .replace(/^[-_]+/, "")
+    .slice(0, 64);
+}
+
+function isTruthy(value: FormDataEntryValue | string | null) {
+  return typeof value === "string" && /^(1|true|yes)$/i.test(value);
+}
+
+export async function GET() {
+  try {
+    const soundfonts = await listSoundfonts();
+    return NextResponse.json({ soundfonts });
+  } catch (error) {
+    const message =
+      error instanceof Error ? error.message : "读取音色库列表失败";
+    return NextResponse.json({ error: message }, { status: 500 });
+  }
+}
+
+export async function POST(request: NextRequest) {
+  try {
+    const contentType = request.headers.get("content-type") ?? "";
+    const searchParams = request.nextUrl.searchParams;
+    let name = searchParams.get("name") ?? "";
+    let overwrite = isTruthy(searchParams.get("overwrite"));
+    let data: Buffer;
+
+    checkSoundfontSize(Number(request.headers.get("content-length") ?? 0));
+    if (contentType.includes("multipart/form-data")) {
+      const formData = await request.formData();
+      const file = formData.get("file");
+      if (!file || !(file instanceof File)) {
+        return NextResponse.json(
+          { error: "缺少上传的 SF2 文件（字段名 file）" },
+          { status: 400 },
+        );
+      }
+      checkSoundfontSize(file.size);
+      const formName = formData.get("name");
+      name =
+        typeof formName === "string" && formName.trim()
+          ? formName.trim()
+          : name || toSoundfontName(file.name);
+      overwrite = overwrite || isTruthy(formData.get("overwrite"));
+      data = Buffer.from(await file.arrayBuffer());
+    } else {
+      data = Buffer.from(await request.arrayBuffer());
+    }
+
+    if (!name) {
+      return NextResponse.json(
+        { error: "缺少音色库名称 name" },
+        { status: 400 },
+      );
+    }
+    if (data.length === 0) {
+      return NextResponse.json(
+        { error: "缺少 SF2 文件内容" },
+        { status: 400 },
+      );
+    }
+
+    const soundfont = await saveSoundfont(name, data, { overwrite });
+    return NextResponse.json({ soundfont }, { status: 201 });
+  } catch (error) {
+    if (error instanceof SoundfontError) {
+      return soundfontErrorResponse(error);
+    }
+    const message =
+      error instanceof Error ? error.message : "上传音色库失败";
+    return NextResponse.json({ error: message }, { status: 400 });
+  }
+}
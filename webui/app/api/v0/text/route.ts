@@ -1,9 +1,11 @@
 import { NextRequest, NextResponse } from "next/server";
-import { parseScore, persistScoreMedia } from "@/lib/music";
+import { ScoreParseError, parseScore, persistScoreMedia } from "@/lib/music";
+import { SoundfontError } from "@/lib/soundfonts";
+import { soundfontErrorResponse } from "@/app/api/v0/soundfonts/errors";
 
 export const runtime = "nodejs";
 
-function normalizeFormat(value: string | null | undefined) {
+function normalizeFormat(value: string | null | undefined): "wav" | "mp3" {
   if (!value) {
     return "wav";
   }
@@ -16,16 +18,19 @@ export async function POST(request: NextRequest) {
     const contentType = request.headers.get("content-type") ?? "";
     let text = "";
     let format = normalizeFormat(request.nextUrl.searchParams.get("format"));
+    let soundfont = request.nextUrl.searchParams.get("soundfont") ?? undefined;
 
     if (contentType.includes("application/json")) {
       const body = (await request.json()) as {
         text?: string;
         format?: string;
+        soundfont?: string;
       };
       text = body.text ?? "";
       if (body.format) {
         format = normalizeFormat(body.format);
       }
+      soundfont = body.soundfont ?? soundfont;
     } else {
       text = await request.text();
     }
@@ -38,15 +43,25 @@ export async function POST(request: NextRequest) {
     }
 
     const score = parseScore(text);
-    const media = await persistScoreMedia(score, format);
+    const media = await persistScoreMedia(score, format, soundfont);
 
     return NextResponse.json({
       id: media.id,
       midiUrl: media.midiUrl,
       audioUrl: media.audioUrl,
       format,
+      diagnostics: score.diagnostics ?? [],
     });
   } catch (error) {
+    if (error instanceof ScoreParseError) {
+      return NextResponse.json(
+        { error: error.message, diagnostics: error.diagnostics },
+        { status: 400 },
+      );
+    }
+    if (error instanceof SoundfontError) {
+      return soundfontErrorResponse(error);
+    }
     const message =
       error instanceof Error ? error.message : "未知解析或渲染错误";
     return NextResponse.json({ error: message }, { status: 400 });
@@ -0,0 +1,92 @@
+import { NextRequest, NextResponse } from "next/server";
+import fs from "node:fs/promises";
+import {
+  ScoreParseError,
+  midiToTexts,
+  parseScore,
+  persistScoreMedia,
+  scoreToText,
+  transposeScore,
+} from "@/lib/music";
+import { SoundfontError } from "@/lib/soundfonts";
+import { soundfontErrorResponse } from "@/app/api/v0/soundfonts/errors";
+import { resolveMediaPath } from "@/lib/media";
+
+export const runtime = "nodejs";
+
+export async function POST(request: NextRequest) {
+  try {
+    const body = (await request.json()) as {
+      text?: string;
+      id?: string;
+      file?: string;
+      semitones?: number;
+      key?: string;
+      mode?: string;
+      render?: boolean;
+      format?: string;
+      soundfont?: string;
+    };
+
+    let text = body.text ?? "";
+    const fileRef = body.file ?? (body.id ? `${body.id}.mid` : "");
+    if (!text.trim() && fileRef) {
+      const midiBuffer = await fs.readFile(resolveMediaPath(fileRef));
+      text = midiToTexts(midiBuffer).combinedText;
+    }
+    if (!text.trim()) {
+      return NextResponse.json(
+        { error: "缺少文本内容 text 或 MIDI 文件引用（id 或 file）" },
+        { status: 400 },
+      );
+    }
+    if (body.semitones === undefined && !body.key) {
+      return NextResponse.json(
+        { error: "需要提供 semitones 或目标调 key" },
+        { status: 400 },
+      );
+    }
+    if (
+      body.semitones !== undefined &&
+      !Number.isInteger(body.semitones)
+    ) {
+      return NextResponse.json(
+        { error: "semitones 必须是整数" },
+        { status: 400 },
+      );
+    }
+
+    const score = transposeScore(parseScore(text), {
+      semitones: body.semitones,
+      key: body.key,
+      mode: body.mode === "respell" ? "respell" : "transpose",
+    });
+    const transposedText = scoreToText(score, { compressRepeats: true });
+
+    if (!body.render) {
+      return NextResponse.json({ text: transposedText });
+    }
+
+    const format = body.format?.toLowerCase() === "mp3" ? "mp3" : "wav";
+    const media = await persistScoreMedia(score, format, body.soundfont);
+    return NextResponse.json({
+      text: transposedText,
+      id: media.id,
+      midiUrl: media.midiUrl,
+      audioUrl: media.audioUrl,
+      format,
+    });
+  } catch (error) {
+    if (error instanceof ScoreParseError) {
+      return NextResponse.json(
+        { error: error.message, diagnostics: error.diagnostics },
+        { status: 400 },
+      );
+    }
+    if (error instanceof SoundfontError) {
+      return soundfontErrorResponse(error);
+    }
+    const message = error instanceof Error ? error.message : "移调失败";
+    return NextResponse.json({ error: message }, { status: 400 });
+  }
+}
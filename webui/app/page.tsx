@@ -2,12 +2,22 @@
 
 import { useState } from "react";
 
+type Diagnostic = {
+  line: number;
+  column: number;
+  length: number;
+  code: string;
+  message: string;
+  severity: "error" | "warning";
+};
+
 type RenderResponse = {
   id: string;
   midiUrl: string;
   audioUrl: string;
   format: "wav" | "mp3";
   error?: string;
+  diagnostics?: Diagnostic[];
 };
 
 export default function Home() {
@@ -18,6 +28,7 @@ export default function Home() {
   const [audioUrl, setAudioUrl] = useState<string>("");
   const [midiUrl, setMidiUrl] = useState<string>("");
   const [status, setStatus] = useState<string>("");
+  const [diagnostics, setDiagnostics] = useState<Diagnostic[]>([]);
   const [isLoading, setIsLoading] = useState(false);
   const [midiRef, setMidiRef] = useState<string>("");
   const [midiText, setMidiText] = useState<string>("");
@@ -30,6 +41,7 @@ export default function Home() {
     setStatus("正在渲染，请稍候...");
     setAudioUrl("");
     setMidiUrl("");
+    setDiagnostics([]);
 
     try {
       const response = await fetch("/api/v0/text", {
@@ -38,9 +50,10 @@ export default function Home() {
         body: JSON.stringify({ text, format }),
       });
       const data = (await response.json()) as RenderResponse;
+      setDiagnostics(data.diagnostics ?? []);
 
       if (!response.ok || data.error) {
-        setStatus(data.error ?? "渲染失败");
+        setStatus(data.diagnostics?.length ? "解析失败" : data.error ?? "渲染失败");
         return;
       }
 
@@ -146,6 +159,23 @@ export default function Home() {
             </button>
             <span className="text-sm text-zinc-600">{status}</span>
           </div>
+
+          {diagnostics.length > 0 ? (
+            <ul className="space-y-1 rounded-md border border-zinc-200 bg-white p-3 font-mono text-xs">
+              {diagnostics.map((diagnostic, index) => (
+                <li
+                  key={`${diagnostic.line}-${diagnostic.column}-${index}`}
+                  className={
+                    diagnostic.severity === "error"
+                      ? "text-red-600"
+                      : "text-amber-600"
+                  }
+                >
+                  {diagnostic.line}:{diagnostic.column} {diagnostic.message}
+                </li>
+              ))}
+            </ul>
+          ) : null}
         </section>
 
         <section className="space-y-3">
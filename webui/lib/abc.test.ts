@@ -0,0 +1,71 @@
+import { describe, expect, it } from "vitest";
+import { abcToScore, abcToText, scoreToAbc } from "./abc";
+import { parseScore, scoreToText } from "./music";
+
+function roundTrip(text: string) {
+  const abc = scoreToAbc(parseScore(text));
+  return { abc, text: scoreToText(abcToScore(abc)) };
+}
+
+describe("abc import", () => {
+  it("keeps the accidental spelling of the source", () => {
+    const { text } = abcToText("X:1\nL:1/4\nK:C\n_B ^A B =B | [_Bd^F] {_B}c|");
+    expect(text).toContain("7b 6# 7b 7 | (4#7b2+) {7b}1+");
+  });
+
+  it("spells key signature accidentals as scale degrees", () => {
+    const { text } = abcToText("X:1\nL:1/4\nK:D\n=F ^E _E c|");
+    expect(text).toContain("3b 2# 2b 7 |");
+  });
+
+  it("ties a note held over a bar line", () => {
+    const { text } = abcToText("X:1\nM:4/4\nL:1/4\nK:C\nC D E F-|F G A2|");
+    expect(text).toContain("1 2 3 4& | 4 5 6~ |");
+  });
+});
+
+describe("abc round trip", () => {
+  it("ties notes across bar lines", () => {
+    const source = "[Key=C Time=4/4] 1 2 3 4& | 4 5 6~ |";
+    const result = roundTrip(source);
+    expect(result.abc).toContain("F2- | F2");
+    expect(result.text).toBe(scoreToText(parseScore(source)));
+  });
+
+  it("keeps a tempo change inside a tied note", () => {
+    const source = "[Key=C Time=3/4] 1~& [BPM=90] 1 | 2 3~ |";
+    const result = roundTrip(source);
+    expect(result.abc).toContain("C4- [Q:1/4=90] C2 |");
+    expect(result.text).toContain("1~& [BPM=90] 1 | 2 3~ |");
+  });
+
+  it("keeps tuplets", () => {
+    const source =
+      "[Key=F Time=4/4] {3: 1 2 3} 4 5/ 6/ | 7 {3: 1/ 2/ 3/} 4. 5/ |";
+    const result = roundTrip(source);
+    expect(result.abc).toContain("(3F2 G2 A2");
+    expect(result.text).toBe(scoreToText(parseScore(source)));
+  });
+
+  it("keeps dynamics", () => {
+    const source = "[Key=C Time=4/4] p 1 2 f 3 4 | ff 5~~~ |";
+    const result = roundTrip(source);
+    expect(result.abc).toContain("!p!C2 D2 !f!E2 F2 | !ff!G8");
+    expect(result.text).toBe(scoreToText(parseScore(source)));
+  });
+
+  it("keeps lyrics and syllables", () => {
+    const source =
+      '[Key=C Time=4/4] 1"hel-" 2"lo" 3"world" 4 | 5"你" 6"好" 0~ |';
+    const result = roundTrip(source);
+    expect(result.abc).toContain("w:hel- lo world * 你 好");
+    expect(result.text).toBe(scoreToText(parseScore(source)));
+  });
+
+  it("skips tied continuations when aligning lyrics", () => {
+    const source = '[Key=C Time=4/4] 1"a" 2& [BPM=90] 2 3"b" |';
+    const result = roundTrip(source);
+    expect(result.abc).toContain("w:a * b");
+    expect(result.text).toBe(scoreToText(parseScore(source)));
+  });
+});
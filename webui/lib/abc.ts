@@ -0,0 +1,1287 @@
+import { GM_INSTRUMENTS } from "./instruments";
+import type {
+  NoteSpec,
+  ParsedScore,
+  ScoreDiagnostic,
+  ScoreEvent,
+  ScoreHeader,
+  ScoreVoice,
+  StructureMarker,
+} from "./music";
+import {
+  DEFAULT_HEADER,
+  DYNAMIC_VELOCITIES,
+  STEP_OFFSETS,
+  barLengthBeats,
+  chooseReferenceOctave,
+  degreeToMidi,
+  expandStructure,
+  keySignatureSharps,
+  midiNoteToSpec,
+  nearestDynamic,
+  parseTimeSignature,
+  scoreToText,
+  splitSyllables,
+} from "./music";
+import { spellNote } from "./musicxml";
+
+const MAX_ABC_LENGTH = 1024 * 1024;
+
+const MAX_ABC_BEATS = 20000;
+
+const STEP_FIFTHS: Record<string, number> = {
+  F: -1,
+  C: 0,
+  G: 1,
+  D: 2,
+  A: 3,
+  E: 4,
+  B: 5,
+};
+
+const STEP_NAMES = Object.keys(STEP_OFFSETS);
+
+const SHARP_ORDER = ["F", "C", "G", "D", "A", "E", "B"];
+
+const SHARP_SPELLINGS: [string, number][] = [
+  ["C", 0],
+  ["C", 1],
+  ["D", 0],
+  ["D", 1],
+  ["E", 0],
+  ["F", 0],
+  ["F", 1],
+  ["G", 0],
+  ["G", 1],
+  ["A", 0],
+  ["A", 1],
+  ["B", 0],
+];
+
+const ABC_MODES: Record<string, string> = {
+  maj: "major",
+  ion: "major",
+  m: "aeolian",
+  min: "aeolian",
+  aeo: "aeolian",
+  dor: "dorian",
+  phr: "phrygian",
+  lyd: "lydian",
+  mix: "mixolydian",
+  loc: "locrian",
+};
+
+const MODE_FIFTHS: Record<string, number> = {
+  lydian: 1,
+  major: 0,
+  mixolydian: -1,
+  dorian: -2,
+  aeolian: -3,
+  phrygian: -4,
+  locrian: -5,
+};
+
+const MODE_SUFFIXES: Record<string, string> = {
+  aeolian: "m",
+  harmonic: "m",
+  melodic: "m",
+  dorian: "dor",
+  phrygian: "phr",
+  lydian: "lyd",
+  mixolydian: "mix",
+  locrian: "loc",
+};
+
+const KEY_ENHARMONICS: Record<string, string> = {
+  Cb: "B",
+  Fb: "E",
+  "E#": "F",
+  "B#": "C",
+};
+
+const ACCIDENTALS: Record<string, number> = {
+  "^^": 2,
+  "^": 1,
+  "=": 0,
+  _: -1,
+  __: -2,
+};
+
+const DECORATION_SHORTHANDS: Record<string, string> = {
+  ".": "staccato",
+  "~": "roll",
+  T: "trill",
+  L: "accent",
+  M: "lowermordent",
+  P: "uppermordent",
+  S: "segno",
+  O: "coda",
+  H: "fermata",
+  u: "upbow",
+  v: "downbow",
+};
+
+const TUPLET_NORMALS: Record<number, number> = {
+  2: 3,
+  3: 2,
+  4: 3,
+  6: 2,
+  8: 3,
+};
+
+const STRUCTURE_DECORATIONS: Record<string, StructureMarker["kind"]> = {
+  segno: "segno",
+  coda: "coda",
+  fine: "fine",
+  "D.C.": "da-capo",
+  "D.S.": "dal-segno",
+  dacoda: "to-coda",
+};
+
+const BARS_PER_LINE = 4;
+
+const EPSILON = 0.0001;
+
+type AbcKey = {
+  key: string;
+  mode: string;
+  signature: Map<string, number>;
+};
+
+type AbcItem = {
+  event: ScoreEvent;
+  pitches: number[];
+  graces: number[];
+  steps: Map<number, string>;
+  tieOpen: boolean;
+};
+
+type AbcMarks = Pick<ScoreEvent, "accent" | "articulation" | "ornament">;
+
+type AbcDefaults = {
+  header: ScoreHeader;
+  signature: Map<string, number>;
+  unit: number | null;
+};
+
+type AbcVoice = {
+  id: string;
+  name: string;
+  header: ScoreHeader;
+  current: ScoreHeader;
+  signature: Map<string, number>;
+  unit: number;
+  items: AbcItem[];
+  markers: StructureMarker[];
+  barAccidentals: Map<string, number>;
+  lineItems: AbcItem[];
+  marks: AbcMarks;
+  graces: number[];
+  steps: Map<number, string>;
+  velocity?: number;
+  tuplet: { ratio: number; remaining: number } | null;
+  broken: number;
+  last: AbcItem | null;
+};
+
+type AbcNote = {
+  pitch: number;
+  step: string;
+  beats: number;
+  tie: boolean;
+  next: number;
+};
+
+function signatureFor(fifths: number) {
+  const signature = new Map<string, number>();
+  const count = Math.min(7, Math.abs(fifths));
+  const steps = fifths >= 0 ? SHARP_ORDER : [...SHARP_ORDER].reverse();
+  for (const step of steps.slice(0, count)) {
+    signature.set(step, fifths >= 0 ? 1 : -1);
+  }
+  return signature;
+}
+
+function parseAbcKey(value: string): AbcKey | null {
+  const text = value.trim();
+  if (!text || /^none\b/i.test(text)) {
+    return { key: "C", mode: "major", signature: new Map() };
+  }
+  const match = text.match(/^([A-G])([#b]?)\s*([A-Za-z]*)/);
+  if (!match) {
+    return null;
+  }
+  const modeWord = match[3].toLowerCase();
+  const mode =
+    ABC_MODES[modeWord] ?? ABC_MODES[modeWord.slice(0, 3)] ?? "major";
+  const tokens = text.split(/\s+/).slice(1);
+  const accidental = match[2] === "#" ? 7 : match[2] === "b" ? -7 : 0;
+  const signature = tokens.includes("exp")
+    ? new Map<string, number>()
+    : signatureFor(STEP_FIFTHS[match[1]] + accidental + MODE_FIFTHS[mode]);
+  for (const token of tokens) {
+    const extra = token.match(/^(\^\^|\^|__|_|=)([A-Ga-g])$/);
+    if (extra) {
+      signature.set(extra[2].toUpperCase(), ACCIDENTALS[extra[1]]);
+    }
+  }
+  const name = match[1] + match[2];
+  return { key: KEY_ENHARMONICS[name] ?? name, mode, signature };
+}
+
+function parseAbcMeter(value: string) {
+  const text = value.trim();
+  if (text === "C") {
+    return "4/4";
+  }
+  if (text === "C|") {
+    return "2/2";
+  }
+  const match = text.match(/^([\d+]+)\s*\/\s*(\d+)/);
+  if (!match) {
+    return null;
+  }
+  const numerator = match[1]
+    .split("+")
+    .reduce((sum, part) => sum + (Number(part) || 0), 0);
+  const meter = parseTimeSignature(`${numerator}/${match[2]}`);
+  return meter ? `${meter.numerator}/${meter.denominator}` : null;
+}
+
+function parseAbcUnit(value: string) {
+  const match = value.trim().match(/^(\d+)\s*\/\s*(\d+)$/);
+  if (!match || Number(match[1]) === 0 || Number(match[2]) === 0) {
+    return null;
+  }
+  return (Number(match[1]) * 4) / Number(match[2]);
+}
+
+function parseAbcTempo(value: string, unit: number) {
+  const beat = value.match(/(\d+)\s*\/\s*(\d+)\s*=\s*(\d+(?:\.\d+)?)/);
+  if (beat && Number(beat[2]) > 0) {
+    const beats = (Number(beat[1]) * 4) / Number(beat[2]);
+    return Math.round(Number(beat[3]) * beats) || null;
+  }
+  const legacy = value.match(/^\s*(?:C\d*\s*=\s*)?(\d+(?:\.\d+)?)\s*$/);
+  return legacy ? Math.round(Number(legacy[1]) * unit) || null : null;
+}
+
+function defaultUnit(time: string) {
+  const meter = parseTimeSignature(time) ?? { numerator: 4, denominator: 4 };
+  return meter.numerator / meter.denominator < 0.75 ? 0.25 : 0.5;
+}
+
+function parseLength(text: string) {
+  const match = text.match(/^(\d*)(\/*)(\d*)/)!;
+  const numerator = match[1] ? Number(match[1]) : 1;
+  const denominator = match[2]
+    ? match[3]
+      ? Number(match[3])
+      : 2 ** match[2].length
+    : 1;
+  return {
+    factor: denominator > 0 ? numerator / denominator : 1,
+    length: match[0].length,
+  };
+}
+
+function parseVoltas(text: string) {
+  const endings: number[] = [];
+  for (const part of text.split(",")) {
+    const [from, to] = part.split("-").map(Number);
+    for (let ending = from; ending <= (to || from); ending += 1) {
+      endings.push(ending);
+    }
+  }
+  return endings;
+}
+
+function abcSyllables(value: string) {
+  return splitSyllables(value)
+    .filter((syllable) => syllable !== "|")
+    .map((syllable) =>
+      syllable === "*" || syllable === "_"
+        ? null
+        : syllable.replace(/~/g, " "),
+    );
+}
+
+function createAbcVoice(id: string, defaults: AbcDefaults): AbcVoice {
+  return {
+    id,
+    name: "",
+    header: { ...defaults.header },
+    current: { ...defaults.header },
+    signature: new Map(defaults.signature),
+    unit: defaults.unit ?? defaultUnit(defaults.header.time),
+    items: [],
+    markers: [],
+    barAccidentals: new Map(),
+    lineItems: [],
+    marks: {},
+    graces: [],
+    steps: new Map(),
+    tuplet: null,
+    broken: 1,
+    last: null,
+  };
+}
+
+function spellPitch(
+  pitch: number,
+  step: string | undefined,
+  header: ScoreHeader,
+): NoteSpec {
+  const nearest = midiNoteToSpec(pitch, header);
+  if (step === undefined) {
+    return nearest;
+  }
+  const tonicStep = STEP_NAMES.indexOf(header.key[0]);
+  const degree = ((STEP_NAMES.indexOf(step) - tonicStep + 7) % 7) + 1;
+  const difference =
+    pitch - degreeToMidi(degree, nearest.octaveShift, 0, header);
+  const octaves = Math.round(difference / 12);
+  const accidental = difference - octaves * 12;
+  if (Math.abs(accidental) > 2) {
+    return nearest;
+  }
+  return {
+    degree,
+    octaveShift: nearest.octaveShift + octaves,
+    accidental,
+  };
+}
+
+function finishVoice(voice: AbcVoice): ScoreVoice {
+  const percussion = voice.header.kind === "drums";
+  const pitches = voice.items.flatMap((item) => item.pitches);
+  const header: ScoreHeader = {
+    ...voice.header,
+    octave: percussion
+      ? voice.header.octave
+      : chooseReferenceOctave(pitches, voice.header),
+  };
+  let current = header;
+  const events = voice.items.map((item): ScoreEvent => {
+    const { event, pitches, graces, steps } = item;
+    if (event.type === "change") {
+      current = { ...current, ...event.changes };
+      return event;
+    }
+    if (event.type === "rest") {
+      return event;
+    }
+    const eventHeader = current;
+    const toSpec = (pitch: number) =>
+      spellPitch(pitch, steps.get(pitch), eventHeader);
+    const sorted = [...new Set(pitches)].sort((a, b) => a - b);
+    return {
+      ...event,
+      type: sorted.length > 1 ? "chord" : "note",
+      notes: percussion ? [] : sorted.map(toSpec),
+      ...(percussion ? { drums: sorted } : {}),
+      ...(graces.length > 0 && !percussion
+        ? { graces: graces.map(toSpec) }
+        : {}),
+    };
+  });
+  const expanded = expandStructure(events, voice.markers);
+  if (expanded === null) {
+    throw new Error("ABC 反复展开后的事件过多");
+  }
+  const totalBeats = expanded.reduce(
+    (sum, event) => sum + event.durationBeats,
+    0,
+  );
+  if (totalBeats > MAX_ABC_BEATS) {
+    throw new Error(`ABC 乐曲过长（上限 ${MAX_ABC_BEATS} 拍）`);
+  }
+  return { header, events: expanded, totalBeats };
+}
+
+function readAbc(input: string) {
+  if (input.length > MAX_ABC_LENGTH) {
+    throw new Error(
+      `ABC 文本过长（上限 ${MAX_ABC_LENGTH / 1024 / 1024} MB）`,
+    );
+  }
+  const diagnostics: ScoreDiagnostic[] = [];
+  const defaults: AbcDefaults = {
+    header: { ...DEFAULT_HEADER },
+    signature: new Map(),
+    unit: null,
+  };
+  const voices = new Map<string, AbcVoice>();
+  let voice: AbcVoice | null = null;
+  let title = "";
+  let seenTune = false;
+  let inBody = false;
+  let lineNumber = 0;
+
+  const warn = (column: number, code: string, message: string) => {
+    const duplicate = diagnostics.some(
+      (diagnostic) =>
+        diagnostic.line === lineNumber && diagnostic.code === code,
+    );
+    if (!duplicate) {
+      diagnostics.push({
+        line: lineNumber,
+        column: column + 1,
+        length: 1,
+        code,
+        message,
+        severity: "warning",
+      });
+    }
+  };
+
+  const voiceFor = (id: string) => {
+    let found = voices.get(id);
+    if (!found) {
+      found = createAbcVoice(id, defaults);
+      voices.set(id, found);
+    }
+    return found;
+  };
+
+  const currentVoice = () => {
+    if (!voice) {
+      voice = voices.values().next().value ?? voiceFor("1");
+    }
+    return voice;
+  };
+
+  const startBody = () => {
+    inBody = true;
+    defaults.unit ??= defaultUnit(defaults.header.time);
+    for (const [id, declared] of voices) {
+      Object.assign(declared, createAbcVoice(id, defaults), {
+        name: declared.name,
+      });
+    }
+  };
+
+  const pushChange = (target: AbcVoice, changes: Partial<ScoreHeader>) => {
+    target.current = { ...target.current, ...changes };
+    if (target.items.every((item) => item.event.type === "change")) {
+      target.header = { ...target.header, ...changes };
+      return;
+    }
+    target.items.push({
+      event: { type: "change", durationBeats: 0, notes: [], changes },
+      pitches: [],
+      graces: [],
+      steps: new Map(),
+      tieOpen: false,
+    });
+  };
+
+  const applyDirective = (text: string) => {
+    const midi = text.match(/^MIDI\s+(program|channel)\s+(?:\d+\s+)?(\d+)/i);
+    if (!midi) {
+      return;
+    }
+    const value = Number(midi[2]);
+    const isProgram = midi[1].toLowerCase() === "program";
+    if (!inBody) {
+      if (isProgram && value < 128) {
+        defaults.header.program = value;
+      } else if (!isProgram && value === 10) {
+        defaults.header.kind = "drums";
+      }
+      return;
+    }
+    const target = currentVoice();
+    if (isProgram && value < 128) {
+      pushChange(target, { program: value });
+    } else if (!isProgram && value === 10 && target.items.length === 0) {
+      target.header.kind = "drums";
+      target.current.kind = "drums";
+    }
+  };
+
+  const applyField = (name: string, value: string, column: number) => {
+    if (name === "T") {
+      title ||= value.trim();
+      return;
+    }
+    if (name === "I") {
+      applyDirective(value.trim());
+      return;
+    }
+    if (name === "V") {
+      const id = value.trim().split(/\s+/)[0] ?? "";
+      if (!id) {
+        warn(column, "abc-voice", "V: 字段缺少声部编号");
+        return;
+      }
+      const target = voiceFor(id);
+      const label = value.match(/\b(?:name|nm)\s*=\s*(?:"([^"]*)"|(\S+))/);
+      if (label) {
+        target.name = label[1] ?? label[2];
+      }
+      if (inBody) {
+        voice = target;
+      }
+      return;
+    }
+    if (name === "w") {
+      const target = currentVoice();
+      const syllables = abcSyllables(value);
+      syllables.forEach((syllable, index) => {
+        const item = target.lineItems[index];
+        if (item && syllable) {
+          item.event.lyric = syllable;
+        }
+      });
+      if (syllables.length > target.lineItems.length) {
+        warn(column, "abc-lyrics", "歌词音节多于音符");
+      }
+      target.lineItems = [];
+      return;
+    }
+    if (!["K", "L", "M", "Q"].includes(name)) {
+      return;
+    }
+
+    const target = inBody ? currentVoice() : null;
+    const unit = target?.unit ?? defaults.unit ?? 0.5;
+    if (name === "K") {
+      const key = parseAbcKey(value);
+      if (!key) {
+        warn(column, "abc-key", `无法识别的调号: ${value.trim()}`);
+      } else if (target) {
+        target.signature = key.signature;
+        pushChange(target, { key: key.key, mode: key.mode });
+      } else {
+        defaults.signature = key.signature;
+        defaults.header.key = key.key;
+        defaults.header.mode = key.mode;
+      }
+      if (!inBody) {
+        startBody();
+      }
+      return;
+    }
+    if (name === "L") {
+      const parsed = parseAbcUnit(value);
+      if (!parsed) {
+        warn(column, "abc-unit", `无法识别的单位时值: ${value.trim()}`);
+      } else if (target) {
+        target.unit = parsed;
+      } else {
+        defaults.unit = parsed;
+      }
+      return;
+    }
+    if (name === "M") {
+      if (/^\s*none\s*$/i.test(value)) {
+        return;
+      }
+      const time = parseAbcMeter(value);
+      if (!time) {
+        warn(column, "abc-meter", `无法识别的拍号: ${value.trim()}`);
+      } else if (target) {
+        pushChange(target, { time });
+      } else {
+        defaults.header.time = time;
+      }
+      return;
+    }
+    const bpm = parseAbcTempo(value, unit);
+    if (!bpm) {
+      warn(column, "abc-tempo", `无法识别的速度: ${value.trim()}`);
+    } else if (target) {
+      pushChange(target, { bpm });
+    } else {
+      defaults.header.bpm = bpm;
+    }
+  };
+
+  const parseNoteAt = (
+    line: string,
+    index: number,
+    target: AbcVoice,
+  ): AbcNote | null => {
+    const match = line
+      .slice(index)
+      .match(/^(\^\^|\^|__|_|=)?([A-Ga-g])([',]*)/);
+    if (!match) {
+      return null;
+    }
+    const step = match[2].toUpperCase();
+    const octave =
+      (match[2] === step ? 4 : 5) +
+      (match[3].match(/'/g)?.length ?? 0) -
+      (match[3].match(/,/g)?.length ?? 0);
+    const pitchKey = `${step}${octave}`;
+    if (match[1] !== undefined) {
+      target.barAccidentals.set(pitchKey, ACCIDENTALS[match[1]]);
+    }
+    const alter =
+      target.barAccidentals.get(pitchKey) ?? target.signature.get(step) ?? 0;
+    let pitch = 12 * (octave + 1) + STEP_OFFSETS[step] + alter;
+    if (pitch < 0 || pitch > 127) {
+      warn(index, "abc-range", "音高超出 MIDI 范围");
+      pitch = Math.min(127, Math.max(0, pitch));
+    }
+    let next = index + match[0].length;
+    const { factor, length } = parseLength(line.slice(next));
+    next += length;
+    const tie = line[next] === "-";
+    target.steps.set(pitch, step);
+    return {
+      pitch,
+      step,
+      beats: factor * target.unit,
+      tie,
+      next: tie ? next + 1 : next,
+    };
+  };
+
+  const addItem = (
+    target: AbcVoice,
+    type: "note" | "rest",
+    beats: number,
+    pitches: number[],
+    tieOpen: boolean,
+  ) => {
+    let durationBeats = beats * target.broken;
+    target.broken = 1;
+    if (target.tuplet) {
+      durationBeats *= target.tuplet.ratio;
+      target.tuplet.remaining -= 1;
+      if (target.tuplet.remaining <= 0) {
+        target.tuplet = null;
+      }
+    }
+    const previous = target.last;
+    const sorted = [...pitches].sort((a, b) => a - b);
+    const tiedIn =
+      type === "note" &&
+      previous?.tieOpen === true &&
+      previous.pitches.join() === sorted.join();
+    if (tiedIn && target.items[target.items.length - 1] !== previous) {
+      previous.event.tie = true;
+    } else if (tiedIn) {
+      previous.event.durationBeats += durationBeats;
+      previous.tieOpen = tieOpen;
+      target.graces = [];
+      target.steps = new Map();
+      target.marks = {};
+      return;
+    }
+    const item: AbcItem = {
+      event: {
+        type,
+        durationBeats,
+        notes: [],
+        ...(type === "note" ? target.marks : {}),
+        ...(type === "note" && target.velocity !== undefined
+          ? { velocity: target.velocity }
+          : {}),
+      },
+      pitches: sorted,
+      graces: type === "note" ? target.graces : [],
+      steps: type === "note" ? target.steps : new Map(),
+      tieOpen,
+    };
+    target.items.push(item);
+    target.last = item;
+    if (type === "note" && !tiedIn) {
+      target.lineItems.push(item);
+    }
+    if (type === "note") {
+      target.graces = [];
+      target.steps = new Map();
+      target.marks = {};
+    }
+  };
+
+  const applyDecoration = (target: AbcVoice, name: string) => {
+    const structure = STRUCTURE_DECORATIONS[name];
+    if (structure) {
+      target.markers.push({ kind: structure, eventIndex: target.items.length });
+      return;
+    }
+    if (DYNAMIC_VELOCITIES[name] !== undefined) {
+      target.velocity = DYNAMIC_VELOCITIES[name];
+      return;
+    }
+    if (name === "staccato" || name === "tenuto") {
+      target.marks.articulation = name;
+    } else if (name === "accent" || name === ">" || name === "emphasis") {
+      target.marks.accent = true;
+    } else if (name === "trill") {
+      target.marks.ornament = "trill";
+    } else if (/mordent|roll|pralltriller/.test(name)) {
+      target.marks.ornament = "mordent";
+    } else if (name === "slide") {
+      target.marks.ornament = "glide";
+    }
+  };
+
+  const parseMusicLine = (line: string) => {
+    const target = currentVoice();
+    target.lineItems = [];
+    let index = 0;
+    while (index < line.length) {
+      const voiceNow = currentVoice();
+      const char = line[index];
+      const rest = line.slice(index);
+
+      if (/\s|`|\)|y|\$|\\/.test(char)) {
+        index += 1;
+        continue;
+      }
+
+      const inline = rest.match(/^\[([A-Za-z]):([^\]]*)\]/);
+      if (inline) {
+        applyField(inline[1], inline[2], index);
+        index += inline[0].length;
+        continue;
+      }
+
+      const bar =
+        rest.match(/^(:*)(\[\||\|\]|\|\||\|)(:*)/) ??
+        rest.match(/^()(::)()/);
+      if (bar) {
+        voiceNow.barAccidentals.clear();
+        const ends = bar[1].length > 0 || bar[2] === "::";
+        const starts = bar[3].length > 0 || bar[2] === "::";
+        if (ends) {
+          voiceNow.markers.push({
+            kind: "repeat-end",
+            eventIndex: voiceNow.items.length,
+          });
+        }
+        if (starts) {
+          voiceNow.markers.push({
+            kind: "repeat-start",
+            eventIndex: voiceNow.items.length,
+          });
+        }
+        index += bar[0].length;
+        const volta = line.slice(index).match(/^\[?(\d+(?:[,-]\d+)*)/);
+        if (volta) {
+          voiceNow.markers.push({
+            kind: "volta",
+            eventIndex: voiceNow.items.length,
+            endings: parseVoltas(volta[1]),
+          });
+          index += volta[0].length;
+        }
+        continue;
+      }
+
+      const volta = rest.match(/^\[(\d+(?:[,-]\d+)*)/);
+      if (volta) {
+        voiceNow.markers.push({
+          kind: "volta",
+          eventIndex: voiceNow.items.length,
+          endings: parseVoltas(volta[1]),
+        });
+        index += volta[0].length;
+        continue;
+      }
+
+      if (char === '"') {
+        const end = line.indexOf('"', index + 1);
+        index = end === -1 ? line.length : end + 1;
+        continue;
+      }
+
+      if (char === "!" || char === "+") {
+        const end = line.indexOf(char, index + 1);
+        if (end === -1) {
+          warn(index, "abc-decoration", "装饰记号缺少结束符");
+          index = line.length;
+          continue;
+        }
+        applyDecoration(voiceNow, line.slice(index + 1, end));
+        index = end + 1;
+        continue;
+      }
+
+      if (DECORATION_SHORTHANDS[char]) {
+        applyDecoration(voiceNow, DECORATION_SHORTHANDS[char]);
+        index += 1;
+        continue;
+      }
+
+      const tuplet = rest.match(/^\((\d+)(?::(\d*))?(?::(\d*))?/);
+      if (tuplet) {
+        const actual = Number(tuplet[1]);
+        const time = parseTimeSignature(voiceNow.current.time);
+        const compound =
+          !!time && time.numerator % 3 === 0 && time.numerator > 3;
+        const normal =
+          Number(tuplet[2]) || TUPLET_NORMALS[actual] || (compound ? 3 : 2);
+        if (actual > 0) {
+          voiceNow.tuplet = {
+            ratio: normal / actual,
+            remaining: Number(tuplet[3]) || actual,
+          };
+        }
+        index += tuplet[0].length;
+        continue;
+      }
+
+      if (char === "(") {
+        index += 1;
+        continue;
+      }
+
+      if (char === "{") {
+        const end = line.indexOf("}", index);
+        const close = end === -1 ? line.length : end;
+        let cursor = index + 1;
+        while (cursor < close) {
+          const grace = parseNoteAt(line, cursor, voiceNow);
+          if (grace) {
+            voiceNow.graces.push(grace.pitch);
+            cursor = grace.next;
+          } else {
+            cursor += 1;
+          }
+        }
+        index = close + 1;
+        continue;
+      }
+
+      const broken = rest.match(/^(<+|>+)/);
+      if (broken) {
+        const short = 0.5 ** broken[1].length;
+        const long = 2 - short;
+        const last = voiceNow.last;
+        const shrinkFirst = broken[1][0] === "<";
+        if (last && last.event.type !== "change") {
+          last.event.durationBeats *= shrinkFirst ? short : long;
+        }
+        voiceNow.broken = shrinkFirst ? long : short;
+        index += broken[0].length;
+        continue;
+      }
+
+      if (char === "[") {
+        const end = line.indexOf("]", index);
+        if (end === -1) {
+          warn(index, "abc-chord", "和弦缺少结束符 ]");
+          index = line.length;
+          continue;
+        }
+        const pitches: number[] = [];
+        let beats = 0;
+        let tie = false;
+        let cursor = index + 1;
+        while (cursor < end) {
+          const note = parseNoteAt(line, cursor, voiceNow);
+          if (note) {
+            pitches.push(note.pitch);
+            beats ||= note.beats;
+            tie ||= note.tie;
+            cursor = note.next;
+          } else {
+            cursor += 1;
+          }
+        }
+        const { factor, length } = parseLength(line.slice(end + 1));
+        index = end + 1 + length;
+        if (line[index] === "-") {
+          tie = true;
+          index += 1;
+        }
+        if (pitches.length > 0) {
+          addItem(voiceNow, "note", beats * factor, pitches, tie);
+        }
+        continue;
+      }
+
+      const note = parseNoteAt(line, index, voiceNow);
+      if (note) {
+        addItem(voiceNow, "note", note.beats, [note.pitch], note.tie);
+        index = note.next;
+        continue;
+      }
+
+      const restMatch = rest.match(/^[zx]/);
+      if (restMatch) {
+        const { factor, length } = parseLength(line.slice(index + 1));
+        addItem(voiceNow, "rest", factor * voiceNow.unit, [], false);
+        index += 1 + length;
+        continue;
+      }
+
+      const measureRest = rest.match(/^[ZX](\d*)/);
+      if (measureRest) {
+        const bars = Number(measureRest[1]) || 1;
+        const beats = bars * barLengthBeats(voiceNow.current.time);
+        addItem(voiceNow, "rest", beats, [], false);
+        index += measureRest[0].length;
+        continue;
+      }
+
+      warn(index, "abc-symbol", `无法识别的 ABC 符号: ${char}`);
+      index += 1;
+    }
+  };
+
+  for (const rawLine of input.split(/\r?\n/)) {
+    lineNumber += 1;
+    if (rawLine.startsWith("%%")) {
+      applyDirective(rawLine.slice(2).trim());
+      continue;
+    }
+    const line = rawLine.replace(/(^|[^\\])%.*$/, "$1").trimEnd();
+    const field = line.match(/^([A-Za-z+]):(.*)$/);
+    if (field) {
+      if (field[1] === "X") {
+        if (seenTune) {
+          break;
+        }
+        seenTune = true;
+        continue;
+      }
+      applyField(field[1], field[2], 0);
+      continue;
+    }
+    if (!line.trim()) {
+      if (inBody && voices.size > 0 && seenTune) {
+        break;
+      }
+      continue;
+    }
+    if (!inBody) {
+      startBody();
+    }
+    parseMusicLine(line);
+  }
+
+  const parsed = Array.from(voices.values()).filter((item) =>
+    item.items.some((entry) => entry.event.type !== "change"),
+  );
+  const hasNotes = parsed.some((item) =>
+    item.items.some((entry) => entry.pitches.length > 0),
+  );
+  if (!hasNotes) {
+    throw new Error("ABC 中没有可识别的音符");
+  }
+  const scoreVoices = parsed.map(finishVoice);
+  const score: ParsedScore = {
+    header: scoreVoices[0].header,
+    voices: scoreVoices,
+    totalBeats: Math.max(...scoreVoices.map((item) => item.totalBeats)),
+    ...(diagnostics.length > 0 ? { diagnostics } : {}),
+  };
+  return {
+    title,
+    score,
+    voices: parsed.map((item) => ({ id: item.id, name: item.name })),
+  };
+}
+
+export function abcToScore(input: string): ParsedScore {
+  return readAbc(input).score;
+}
+
+export function abcToText(input: string) {
+  const { title, score, voices } = readAbc(input);
+  return {
+    title,
+    text: scoreToText(score, { compressRepeats: true }),
+    voices,
+    diagnostics: score.diagnostics ?? [],
+  };
+}
+
+function fractionOf(value: number): [number, number] {
+  for (let denominator = 1; denominator <= 96; denominator += 1) {
+    const scaled = value * denominator;
+    if (Math.abs(scaled - Math.round(scaled)) < EPSILON) {
+      return [Math.round(scaled), denominator];
+    }
+  }
+  return [Math.round(value * 64), 64];
+}
+
+function abcLength(beats: number) {
+  const [numerator, denominator] = fractionOf(beats / 0.5);
+  if (denominator === 1) {
+    return numerator === 1 ? "" : String(numerator);
+  }
+  if (numerator === 1) {
+    return denominator === 2 ? "/" : `/${denominator}`;
+  }
+  return `${numerator}/${denominator}`;
+}
+
+function abcKeyName(header: ScoreHeader) {
+  return header.key + (MODE_SUFFIXES[header.mode] ?? "");
+}
+
+function abcTempo(bpm: number) {
+  return `1/4=${Math.round(bpm)}`;
+}
+
+function abcVoiceName(header: ScoreHeader) {
+  if (header.kind === "drums") {
+    return "Drums";
+  }
+  return GM_INSTRUMENTS[header.program]?.name ?? "Voice";
+}
+
+function tupletSize(events: ScoreEvent[], start: number, room: number) {
+  let sum = 0;
+  for (let index = start; index < events.length; index += 1) {
+    const event = events[index];
+    if (event.type === "change" || fractionOf(event.durationBeats)[1] % 3) {
+      return 0;
+    }
+    sum += event.durationBeats;
+    if (sum > room + EPSILON || index - start >= 9) {
+      return 0;
+    }
+    if (fractionOf(sum)[1] % 3 !== 0) {
+      return index - start + 1;
+    }
+  }
+  return 0;
+}
+
+function writeVoice(voice: ScoreVoice, base: ScoreHeader) {
+  const percussion = voice.header.kind === "drums";
+  let current: ScoreHeader = percussion
+    ? { ...voice.header, key: "C", mode: "major" }
+    : { ...voice.header };
+  let signature = signatureFor(keySignatureSharps(current));
+  let barBeats = barLengthBeats(current.time);
+  const barAccidentals = new Map<string, number>();
+  const lines: string[] = [];
+  let bar: string[] = [];
+  let bars: string[] = [];
+  let lyrics: string[] = [];
+  let hasLyric = false;
+  let position = 0;
+  let dynamic = "";
+  let tupletLeft = 0;
+  let prefix = "";
+
+  if (abcKeyName(current) !== abcKeyName(base)) {
+    bar.push(`[K:${abcKeyName(current)}]`);
+  }
+  if (current.time !== base.time) {
+    bar.push(`[M:${current.time}]`);
+  }
+  if (current.bpm !== base.bpm) {
+    bar.push(`[Q:${abcTempo(current.bpm)}]`);
+  }
+
+  const flushLine = () => {
+    if (bars.length > 0) {
+      lines.push(bars.join(" "));
+      if (hasLyric) {
+        lines.push(`w:${lyrics.join(" ")}`);
+      }
+    }
+    bars = [];
+    lyrics = [];
+    hasLyric = false;
+  };
+
+  const closeBar = () => {
+    bars.push(`${bar.join(" ")} |`);
+    bar = [];
+    position = 0;
+    barAccidentals.clear();
+    if (bars.length >= BARS_PER_LINE) {
+      flushLine();
+    }
+  };
+
+  const pitchText = (step: string, alter: number, octave: number) => {
+    const pitchKey = `${step}${octave}`;
+    const expected =
+      barAccidentals.get(pitchKey) ?? signature.get(step) ?? 0;
+    let accidental = "";
+    if (alter !== expected) {
+      accidental =
+        Object.keys(ACCIDENTALS).find(
+          (symbol) => ACCIDENTALS[symbol] === alter,
+        ) ?? "";
+      barAccidentals.set(pitchKey, alter);
+    }
+    const letter =
+      octave >= 5
+        ? step.toLowerCase() + "'".repeat(octave - 5)
+        : step + ",".repeat(Math.max(0, 4 - octave));
+    return accidental + letter;
+  };
+
+  const noteText = (note: NoteSpec) => {
+    const { step, alter, octave } = spellNote(note, current);
+    return pitchText(step, alter, octave);
+  };
+
+  const drumText = (pitch: number) => {
+    const [step, alter] = SHARP_SPELLINGS[pitch % 12];
+    return pitchText(step, alter, Math.floor(pitch / 12) - 1);
+  };
+
+  const eventText = (
+    event: ScoreEvent,
+    beats: number,
+    first: boolean,
+    tie: boolean,
+    tiedIn: boolean,
+  ) => {
+    const length = abcLength(beats);
+    if (event.type === "rest") {
+      return `z${length}`;
+    }
+    let marks = "";
+    if (first) {
+      if (event.graces && !percussion) {
+        marks += `{${event.graces.map(noteText).join("")}}`;
+      }
+      if (event.velocity !== undefined) {
+        const mark = nearestDynamic(event.velocity);
+        if (mark !== dynamic) {
+          marks += `!${mark}!`;
+          dynamic = mark;
+        }
+      }
+      if (event.symbol) {
+        marks += `"${event.symbol}"`;
+      }
+      if (event.accent) {
+        marks += "!accent!";
+      }
+      if (event.articulation) {
+        marks += event.articulation === "staccato" ? "." : "!tenuto!";
+      }
+      if (event.ornament) {
+        marks += `!${event.ornament === "glide" ? "slide" : event.ornament}!`;
+      }
+      if (!tiedIn) {
+        lyrics.push(event.lyric ? event.lyric.replace(/\s+/g, "~") : "*");
+        hasLyric ||= !!event.lyric;
+      }
+    }
+    const pitches = percussion
+      ? (event.drums ?? []).map(drumText)
+      : event.notes.map(noteText);
+    if (pitches.length === 0) {
+      return `z${length}`;
+    }
+    const body =
+      pitches.length > 1 ? `[${pitches.join("")}]` : pitches[0];
+    return `${marks}${body}${length}${tie ? "-" : ""}`;
+  };
+
+  const writeEvent = (event: ScoreEvent, scale: number, tiedIn: boolean) => {
+    let remaining = event.durationBeats;
+    let first = true;
+    while (remaining > EPSILON) {
+      const piece = Math.min(remaining, barBeats - position);
+      remaining -= piece;
+      const tie =
+        event.type !== "rest" && (remaining > EPSILON || event.tie === true);
+      bar.push(
+        prefix + eventText(event, piece * scale, first, tie, tiedIn),
+      );
+      prefix = "";
+      first = false;
+      position += piece;
+      if (position >= barBeats - EPSILON) {
+        closeBar();
+      }
+    }
+  };
+
+  const applyChange = (changes: Partial<ScoreHeader>) => {
+    const next = percussion
+      ? { ...current, ...changes, key: "C", mode: "major" }
+      : { ...current, ...changes };
+    if (next.time !== current.time) {
+      if (position > EPSILON) {
+        closeBar();
+      }
+      bar.push(`[M:${next.time}]`);
+    }
+    if (abcKeyName(next) !== abcKeyName(current)) {
+      bar.push(`[K:${abcKeyName(next)}]`);
+      signature = signatureFor(keySignatureSharps(next));
+    }
+    if (next.bpm !== current.bpm) {
+      bar.push(`[Q:${abcTempo(next.bpm)}]`);
+    }
+    if (next.program !== current.program && !percussion) {
+      bar.push(`[I:MIDI program ${next.program}]`);
+    }
+    current = next;
+    barBeats = barLengthBeats(current.time);
+  };
+
+  let previous: ScoreEvent | null = null;
+  voice.events.forEach((event, index) => {
+    if (event.type === "change") {
+      applyChange(event.changes ?? {});
+      return;
+    }
+    const tiedIn =
+      previous?.tie === true &&
+      previous.type === event.type &&
+      JSON.stringify([previous.notes, previous.drums]) ===
+        JSON.stringify([event.notes, event.drums]);
+    previous = event;
+    if (tupletLeft === 0) {
+      const size = tupletSize(voice.events, index, barBeats - position);
+      if (size > 0) {
+        prefix = size === 3 ? "(3" : `(3:2:${size}`;
+        tupletLeft = size;
+      }
+    }
+    writeEvent(event, tupletLeft > 0 ? 1.5 : 1, tiedIn);
+    tupletLeft = Math.max(0, tupletLeft - 1);
+  });
+
+  if (bar.length > 0) {
+    closeBar();
+  }
+  flushLine();
+  const last = lines.findLastIndex((line) => !line.startsWith("w:"));
+  if (last >= 0) {
+    lines[last] = lines[last].replace(/\|$/, "|]");
+  }
+  return lines;
+}
+
+export function scoreToAbc(score: ParsedScore, title = "") {
+  const base = score.header;
+  const multiple = score.voices.length > 1;
+  const lines = [
+    "X:1",
+    `T:${title.trim() || "Untitled"}`,
+    `M:${base.time}`,
+    "L:1/8",
+    `Q:${abcTempo(base.bpm)}`,
+  ];
+  if (multiple) {
+    score.voices.forEach((voice, index) => {
+      lines.push(`V:${index + 1} name="${abcVoiceName(voice.header)}"`);
+    });
+  }
+  lines.push(`K:${abcKeyName(base)}`);
+  score.voices.forEach((voice, index) => {
+    if (multiple) {
+      lines.push(`V:${index + 1}`);
+    }
+    lines.push(
+      voice.header.kind === "drums"
+        ? "%%MIDI channel 10"
+        : `%%MIDI program ${voice.header.program}`,
+    );
+    lines.push(...writeVoice(voice, base));
+  });
+  return `${lines.join("\n")}\n`;
+}
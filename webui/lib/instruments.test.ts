@@ -0,0 +1,33 @@
+import { describe, expect, it } from "vitest";
+import { findInstrument, instrumentCandidates } from "./instruments";
+
+const names = (value: string) =>
+  instrumentCandidates(value).map((instrument) => instrument.name);
+
+describe("findInstrument", () => {
+  it("matches names, Chinese names and aliases", () => {
+    expect(findInstrument("Violin")?.program).toBe(40);
+    expect(findInstrument("小提琴")?.program).toBe(40);
+    expect(findInstrument("fiddle")?.program).toBe(40);
+    expect(findInstrument("Electric Piano 1")?.program).toBe(4);
+  });
+
+  it("accepts typos within a length-scaled edit distance", () => {
+    expect(findInstrument("vioiln")?.name).toBe("Violin");
+    expect(findInstrument("marimab")?.name).toBe("Marimba");
+    expect(findInstrument("tubb")?.name).toBe("Tuba");
+    expect(findInstrument("tbb")).toBeNull();
+    expect(findInstrument("xyz")).toBeNull();
+  });
+
+  it("lists the candidates of an ambiguous prefix", () => {
+    expect(findInstrument("vi")).toBeNull();
+    expect(names("vi")).toEqual(["Vibraphone", "Violin", "Viola", "Cello"]);
+    expect(findInstrument("pian")?.name).toBe("Acoustic Grand Piano");
+  });
+
+  it("does not pick between equally close typos", () => {
+    expect(findInstrument("violn")).toBeNull();
+    expect(names("violn")).toEqual(["Violin", "Viola"]);
+  });
+});
@@ -0,0 +1,268 @@
+export type Instrument = {
+  program: number;
+  name: string;
+  zh: string;
+  family: string;
+  aliases: string[];
+};
+
+const GM_FAMILIES = [
+  "钢琴",
+  "半音打击乐器",
+  "风琴",
+  "吉他",
+  "贝斯",
+  "弦乐",
+  "合奏",
+  "铜管",
+  "簧管",
+  "木管",
+  "合成主音",
+  "合成音色",
+  "合成效果",
+  "民族乐器",
+  "打击乐器",
+  "音效",
+];
+
+const GM_TABLE: [string, string, string[]][] = [
+  ["Acoustic Grand Piano", "大钢琴", ["piano", "grand", "钢琴", "三角钢琴"]],
+  ["Bright Acoustic Piano", "明亮钢琴", ["bright piano"]],
+  ["Electric Grand Piano", "电钢琴", ["electric grand"]],
+  ["Honky-tonk Piano", "酒吧钢琴", ["honkytonk"]],
+  ["Electric Piano 1", "电钢琴1", ["rhodes", "epiano", "e-piano"]],
+  ["Electric Piano 2", "电钢琴2", ["dx7", "epiano2"]],
+  ["Harpsichord", "大键琴", ["羽管键琴", "古钢琴"]],
+  ["Clavinet", "击弦古钢琴", ["clavi", "clav"]],
+  ["Celesta", "钢片琴", []],
+  ["Glockenspiel", "钟琴", ["glock"]],
+  ["Music Box", "八音盒", ["musicbox", "音乐盒"]],
+  ["Vibraphone", "颤音琴", ["vibes"]],
+  ["Marimba", "马林巴", ["马林巴琴"]],
+  ["Xylophone", "木琴", []],
+  ["Tubular Bells", "管钟", ["bells", "chimes"]],
+  ["Dulcimer", "扬琴", ["hammered dulcimer", "洋琴"]],
+  ["Drawbar Organ", "拉杆风琴", ["organ", "hammond", "风琴"]],
+  ["Percussive Organ", "打击风琴", []],
+  ["Rock Organ", "摇滚风琴", []],
+  ["Church Organ", "管风琴", ["pipe organ", "教堂风琴"]],
+  ["Reed Organ", "簧风琴", ["harmonium"]],
+  ["Accordion", "手风琴", []],
+  ["Harmonica", "口琴", []],
+  ["Tango Accordion", "探戈手风琴", ["bandoneon", "班多钮手风琴"]],
+  ["Acoustic Guitar (nylon)", "尼龙弦吉他", ["guitar", "nylon guitar", "classical guitar", "吉他", "古典吉他"]],
+  ["Acoustic Guitar (steel)", "钢弦吉他", ["steel guitar", "folk guitar", "民谣吉他", "木吉他"]],
+  ["Electric Guitar (jazz)", "爵士电吉他", ["jazz guitar"]],
+  ["Electric Guitar (clean)", "清音电吉他", ["electric guitar", "clean guitar", "电吉他"]],
+  ["Electric Guitar (muted)", "闷音电吉他", ["muted guitar"]],
+  ["Overdriven Guitar", "过载吉他", ["overdrive"]],
+  ["Distortion Guitar", "失真吉他", ["distortion", "rock guitar"]],
+  ["Guitar Harmonics", "吉他泛音", []],
+  ["Acoustic Bass", "原声贝斯", ["bass", "贝斯", "贝司"]],
+  ["Electric Bass (finger)", "指弹电贝斯", ["electric bass", "finger bass", "电贝斯"]],
+  ["Electric Bass (pick)", "拨片电贝斯", ["pick bass"]],
+  ["Fretless Bass", "无品贝斯", ["fretless"]],
+  ["Slap Bass 1", "击弦贝斯1", ["slap bass"]],
+  ["Slap Bass 2", "击弦贝斯2", []],
+  ["Synth Bass 1", "合成贝斯1", ["synth bass"]],
+  ["Synth Bass 2", "合成贝斯2", []],
+  ["Violin", "小提琴", ["fiddle"]],
+  ["Viola", "中提琴", []],
+  ["Cello", "大提琴", ["violoncello"]],
+  ["Contrabass", "低音提琴", ["double bass", "upright bass"]],
+  ["Tremolo Strings", "颤弓弦乐", ["tremolo"]],
+  ["Pizzicato Strings", "拨弦弦乐", ["pizzicato", "拨奏"]],
+  ["Orchestral Harp", "竖琴", ["harp"]],
+  ["Timpani", "定音鼓", []],
+  ["String Ensemble 1", "弦乐合奏1", ["strings", "弦乐", "弦乐合奏"]],
+  ["String Ensemble 2", "弦乐合奏2", ["slow strings"]],
+  ["Synth Strings 1", "合成弦乐1", ["synth strings"]],
+  ["Synth Strings 2", "合成弦乐2", []],
+  ["Choir Aahs", "合唱", ["choir", "合唱团"]],
+  ["Voice Oohs", "人声", ["voice", "oohs"]],
+  ["Synth Voice", "合成人声", ["synth choir"]],
+  ["Orchestra Hit", "管弦乐齐奏", ["orchestra hit", "hit"]],
+  ["Trumpet", "小号", []],
+  ["Trombone", "长号", []],
+  ["Tuba", "大号", []],
+  ["Muted Trumpet", "弱音小号", []],
+  ["French Horn", "圆号", ["horn", "法国号"]],
+  ["Brass Section", "铜管组", ["brass", "铜管"]],
+  ["Synth Brass 1", "合成铜管1", ["synth brass"]],
+  ["Synth Brass 2", "合成铜管2", []],
+  ["Soprano Sax", "高音萨克斯", ["soprano saxophone"]],
+  ["Alto Sax", "中音萨克斯", ["sax", "saxophone", "alto saxophone", "萨克斯"]],
+  ["Tenor Sax", "次中音萨克斯", ["tenor saxophone"]],
+  ["Baritone Sax", "上低音萨克斯", ["baritone saxophone", "bari sax"]],
+  ["Oboe", "双簧管", []],
+  ["English Horn", "英国管", ["cor anglais"]],
+  ["Bassoon", "巴松管", ["大管", "巴松"]],
+  ["Clarinet", "单簧管", ["黑管"]],
+  ["Piccolo", "短笛", []],
+  ["Flute", "长笛", []],
+  ["Recorder", "竖笛", ["直笛"]],
+  ["Pan Flute", "排箫", ["panpipe", "pan pipes"]],
+  ["Blown Bottle", "吹瓶", ["bottle"]],
+  ["Shakuhachi", "尺八", []],
+  ["Whistle", "口哨", []],
+  ["Ocarina", "陶笛", []],
+  ["Lead 1 (square)", "方波主音", ["square", "square lead"]],
+  ["Lead 2 (sawtooth)", "锯齿波主音", ["sawtooth", "saw lead"]],
+  ["Lead 3 (calliope)", "汽笛风琴主音", ["calliope"]],
+  ["Lead 4 (chiff)", "吹管主音", ["chiff"]],
+  ["Lead 5 (charang)", "沙朗主音", ["charang"]],
+  ["Lead 6 (voice)", "人声主音", ["voice lead"]],
+  ["Lead 7 (fifths)", "五度主音", ["fifths"]],
+  ["Lead 8 (bass + lead)", "贝斯主音", ["bass lead"]],
+  ["Pad 1 (new age)", "新世纪铺底", ["new age", "pad"]],
+  ["Pad 2 (warm)", "温暖铺底", ["warm pad"]],
+  ["Pad 3 (polysynth)", "复音合成铺底", ["polysynth"]],
+  ["Pad 4 (choir)", "合唱铺底", ["choir pad"]],
+  ["Pad 5 (bowed)", "弓弦铺底", ["bowed pad"]],
+  ["Pad 6 (metallic)", "金属铺底", ["metallic pad"]],
+  ["Pad 7 (halo)", "光环铺底", ["halo"]],
+  ["Pad 8 (sweep)", "扫频铺底", ["sweep"]],
+  ["FX 1 (rain)", "雨声效果", ["rain"]],
+  ["FX 2 (soundtrack)", "电影音效", ["soundtrack"]],
+  ["FX 3 (crystal)", "水晶效果", ["crystal"]],
+  ["FX 4 (atmosphere)", "大气效果", ["atmosphere"]],
+  ["FX 5 (brightness)", "明亮效果", ["brightness"]],
+  ["FX 6 (goblins)", "鬼怪效果", ["goblins"]],
+  ["FX 7 (echoes)", "回声效果", ["echoes"]],
+  ["FX 8 (sci-fi)", "科幻效果", ["sci-fi", "scifi"]],
+  ["Sitar", "西塔琴", []],
+  ["Banjo", "班卓琴", []],
+  ["Shamisen", "三味线", []],
+  ["Koto", "筝", ["古筝", "guzheng", "zheng", "日本筝"]],
+  ["Kalimba", "卡林巴", ["拇指琴", "thumb piano"]],
+  ["Bagpipe", "风笛", ["bagpipes"]],
+  ["Fiddle", "提琴", []],
+  ["Shanai", "唢呐", ["suona", "shehnai"]],
+  ["Tinkle Bell", "铃铛", ["tinkle"]],
+  ["Agogo", "阿哥哥铃", []],
+  ["Steel Drums", "钢鼓", ["steel drum", "steelpan"]],
+  ["Woodblock", "木鱼", ["wood block", "木块"]],
+  ["Taiko Drum", "太鼓", ["taiko"]],
+  ["Melodic Tom", "旋律嗵鼓", ["tom"]],
+  ["Synth Drum", "合成鼓", []],
+  ["Reverse Cymbal", "反向镲", ["reverse cymbal"]],
+  ["Guitar Fret Noise", "吉他换把噪音", ["fret noise"]],
+  ["Breath Noise", "呼吸声", ["breath"]],
+  ["Seashore", "海浪声", ["sea", "waves"]],
+  ["Bird Tweet", "鸟鸣", ["bird", "birds"]],
+  ["Telephone Ring", "电话铃", ["telephone", "phone"]],
+  ["Helicopter", "直升机", []],
+  ["Applause", "掌声", []],
+  ["Gunshot", "枪声", ["gun"]],
+];
+
+export const GM_INSTRUMENTS: Instrument[] = GM_TABLE.map(
+  ([name, zh, aliases], program) => ({
+    program,
+    name,
+    zh,
+    family: GM_FAMILIES[Math.floor(program / 8)],
+    aliases,
+  }),
+);
+
+function normalizeName(value: string) {
+  return value.toLowerCase().replace(/[\s_\-()（）+]/g, "");
+}
+
+function editDistance(a: string, b: string) {
+  const previous = Array.from({ length: b.length + 1 }, (_, index) => index);
+  for (let i = 1; i <= a.length; i += 1) {
+    let diagonal = previous[0];
+    previous[0] = i;
+    for (let j = 1; j <= b.length; j += 1) {
+      const above = previous[j];
+      previous[j] = Math.min(
+        previous[j] + 1,
+        previous[j - 1] + 1,
+        diagonal + (a[i - 1] === b[j - 1] ? 0 : 1),
+      );
+      diagonal = above;
+    }
+  }
+  return previous[b.length];
+}
+
+const NAME_INDEX = new Map<string, Instrument>();
+for (const instrument of GM_INSTRUMENTS) {
+  for (const name of [instrument.name, instrument.zh, ...instrument.aliases]) {
+    const key = normalizeName(name);
+    if (!NAME_INDEX.has(key)) {
+      NAME_INDEX.set(key, instrument);
+    }
+  }
+}
+
+function rankInstruments(query: string) {
+  return Array.from(NAME_INDEX.entries())
+    .map(([key, instrument]) => {
+      const edits = editDistance(query, key);
+      return {
+        key,
+        instrument,
+        edits,
+        distance: edits / Math.max(query.length, key.length),
+      };
+    })
+    .sort((a, b) => a.distance - b.distance);
+}
+
+function allowedEdits(key: string) {
+  return key.length >= 6 ? 2 : key.length >= 4 ? 1 : 0;
+}
+
+function distinctInstruments(instruments: Instrument[]) {
+  return instruments.filter(
+    (instrument, index) => instruments.indexOf(instrument) === index,
+  );
+}
+
+export function instrumentCandidates(value: string) {
+  const query = normalizeName(value);
+  if (!query) {
+    return [];
+  }
+  const exact = NAME_INDEX.get(query);
+  if (exact) {
+    return [exact];
+  }
+  const prefixed = distinctInstruments(
+    Array.from(NAME_INDEX.entries())
+      .filter(([key]) => query.length >= 2 && key.startsWith(query))
+      .map(([, instrument]) => instrument),
+  );
+  if (prefixed.length > 0) {
+    return prefixed;
+  }
+  const close = rankInstruments(query)
+    .filter(({ key, edits }) => edits <= allowedEdits(key))
+    .sort((a, b) => a.edits - b.edits);
+  return distinctInstruments(
+    close
+      .filter(({ edits }) => edits === close[0].edits)
+      .map(({ instrument }) => instrument),
+  );
+}
+
+export function findInstrument(value: string): Instrument | null {
+  const candidates = instrumentCandidates(value);
+  return candidates.length === 1 ? candidates[0] : null;
+}
+
+export function suggestInstruments(value: string, limit = 3) {
+  const suggestions: Instrument[] = [];
+  for (const { instrument } of rankInstruments(normalizeName(value))) {
+    if (!suggestions.includes(instrument)) {
+      suggestions.push(instrument);
+    }
+    if (suggestions.length >= limit) {
+      break;
+    }
+  }
+  return suggestions;
+}
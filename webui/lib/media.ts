@@ -0,0 +1,12 @@
+import path from "node:path";
+
+export function resolveMediaPath(input: string) {
+  const name = input.trim();
+  const fileName = name.startsWith("/api/v0/file/")
+    ? name.replace("/api/v0/file/", "")
+    : name;
+  if (!/^[A-Za-z0-9-]+\.(mid|midi)$/.test(fileName)) {
+    throw new Error("MIDI 文件名无效");
+  }
+  return path.join(process.cwd(), ".media", fileName.replace(".midi", ".mid"));
+}
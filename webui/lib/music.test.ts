@@ -0,0 +1,1111 @@
+import { describe, expect, it } from "vitest";
+import type { MidiImportOptions } from "./music";
+import {
+  MidiParseError,
+  ScoreParseError,
+  checkMidiSize,
+  midiToText,
+  midiToTexts,
+  parseScore,
+  scoreToMidiBuffer,
+  scoreToText,
+  transposeScore,
+} from "./music";
+
+function createRandom(seed: number) {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let value = state;
+    value = Math.imul(value ^ (value >>> 15), value | 1);
+    value ^= value + Math.imul(value ^ (value >>> 7), value | 61);
+    return ((value ^ (value >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+function varLen(value: number) {
+  const bytes = [value & 0x7f];
+  let rest = value >> 7;
+  while (rest > 0) {
+    bytes.unshift((rest & 0x7f) | 0x80);
+    rest >>= 7;
+  }
+  return bytes;
+}
+
+function uint32(value: number) {
+  return [
+    (value >>> 24) & 0xff,
+    (value >> 16) & 0xff,
+    (value >> 8) & 0xff,
+    value & 0xff,
+  ];
+}
+
+function chunk(type: string, body: number[]) {
+  return [...Buffer.from(type, "latin1"), ...uint32(body.length), ...body];
+}
+
+function midiTrack(events: [number, number[]][]) {
+  const body = events.flatMap(([delta, bytes]) => [...varLen(delta), ...bytes]);
+  return chunk("MTrk", [...body, 0x00, 0xff, 0x2f, 0x00]);
+}
+
+function midiFile(tracks: number[][], division = 480) {
+  const header = chunk("MThd", [
+    0x00,
+    tracks.length > 1 ? 0x01 : 0x00,
+    0x00,
+    tracks.length,
+    (division >> 8) & 0xff,
+    division & 0xff,
+  ]);
+  return Buffer.from([...header, ...tracks.flat()]);
+}
+
+function melodyTrack(notes: number[], ticks = 480) {
+  return midiTrack([
+    [0, [0xff, 0x03, 0x05, ...Buffer.from("Piano")]],
+    [0, [0xc0, 0x00]],
+    ...notes.flatMap((note): [number, number[]][] => [
+      [0, [0x90, note, 0x50]],
+      [ticks, [0x80, note, 0x00]],
+    ]),
+  ]);
+}
+
+function timedTrack(notes: [number, number, number][]) {
+  const events = notes
+    .flatMap(([start, length, note]): [number, number[]][] => [
+      [start, [0x90, note, 0x50]],
+      [start + length, [0x80, note, 0x00]],
+    ])
+    .sort((left, right) => left[0] - right[0] || left[1][0] - right[1][0]);
+  return midiTrack(
+    events.map(([tick, bytes], index): [number, number[]] => [
+      tick - (events[index - 1]?.[0] ?? 0),
+      bytes,
+    ]),
+  );
+}
+
+const SCALE = [60, 62, 64, 65, 67, 69, 71, 72];
+
+function sampleMidi() {
+  const conductor = midiTrack([
+    [0, [0xff, 0x51, 0x03, 0x07, 0xa1, 0x20]],
+    [0, [0xff, 0x58, 0x04, 0x04, 0x02, 0x18, 0x08]],
+    [1920, [0xff, 0x51, 0x03, 0x06, 0x1a, 0x80]],
+  ]);
+  return midiFile([
+    conductor,
+    melodyTrack([60, 62, 64, 65, 67, 69, 71, 72]),
+    midiTrack([
+      [0, [0x99, 36, 0x64]],
+      [240, [0x89, 36, 0x00]],
+      [0, [0x99, 38, 0x64]],
+      [240, [0x89, 38, 0x00]],
+    ]),
+  ]);
+}
+
+function midiEvents(buffer: Buffer) {
+  const tracks: { tick: number; bytes: number[] }[][] = [];
+  let offset = 14;
+  while (offset < buffer.length) {
+    const end = offset + 8 + buffer.readUInt32BE(offset + 4);
+    const events: { tick: number; bytes: number[] }[] = [];
+    let tick = 0;
+    let status = 0;
+    offset += 8;
+    while (offset < end) {
+      let delta = 0;
+      do {
+        delta = (delta << 7) | (buffer[offset] & 0x7f);
+      } while (buffer[offset++] & 0x80);
+      tick += delta;
+      if (buffer[offset] & 0x80) {
+        status = buffer[offset++];
+      }
+      let length = [0xc0, 0xd0].includes(status & 0xf0) ? 1 : 2;
+      if (status === 0xff) {
+        length = 2 + buffer[offset + 1];
+      }
+      events.push({
+        tick,
+        bytes: [status, ...buffer.subarray(offset, offset + length)],
+      });
+      offset += length;
+    }
+    tracks.push(events);
+  }
+  return tracks;
+}
+
+function noteOns(buffer: Buffer) {
+  return midiEvents(buffer)
+    .flat()
+    .filter(({ bytes }) => (bytes[0] & 0xf0) === 0x90 && bytes[2] > 0)
+    .sort(
+      (left, right) => left.tick - right.tick || left.bytes[1] - right.bytes[1],
+    )
+    .map(({ tick, bytes }) => [tick, bytes[1]]);
+}
+
+function importOrParseError(data: Buffer) {
+  try {
+    return midiToTexts(data);
+  } catch (error) {
+    expect(error).toBeInstanceOf(MidiParseError);
+    return null;
+  }
+}
+
+describe("midi import fuzzing", () => {
+  it("only throws MidiParseError for random bytes", () => {
+    const random = createRandom(20);
+    for (let iteration = 0; iteration < 200; iteration += 1) {
+      const length = Math.floor(random() * 256);
+      const bytes = Array.from({ length }, () => Math.floor(random() * 256));
+      const prefix =
+        iteration % 2 === 0 ? [...Buffer.from("MThd"), 0, 0, 0, 6] : [];
+      importOrParseError(Buffer.from([...prefix, ...bytes]));
+    }
+  });
+
+  it("only throws MidiParseError for mutated files", () => {
+    const random = createRandom(400);
+    const source = sampleMidi();
+    let imported = 0;
+    for (let iteration = 0; iteration < 400; iteration += 1) {
+      const data = Buffer.from(source);
+      const mutations = 1 + Math.floor(random() * 8);
+      for (let count = 0; count < mutations; count += 1) {
+        data[Math.floor(random() * data.length)] = Math.floor(random() * 256);
+      }
+      const cut = random() < 0.25 ? Math.floor(random() * data.length) : 0;
+      if (importOrParseError(cut ? data.subarray(0, cut) : data)) {
+        imported += 1;
+      }
+    }
+    expect(imported).toBeGreaterThan(0);
+  });
+});
+
+describe("midi import recovery", () => {
+  it("keeps the readable part of a truncated final track", () => {
+    const source = midiFile([melodyTrack([60, 62, 64, 65, 67])]);
+    const result = midiToTexts(source.subarray(0, source.length - 6));
+    expect(result.tracks[0].noteCount).toBeGreaterThanOrEqual(4);
+    expect(result.warnings.join("\n")).toContain("被截断");
+  });
+
+  it("rejects a truncated track that is not the last one", () => {
+    const first = chunk("MTrk", [0, 0x90, 60, 0x50, 0x83, 0x60, 0x80, 60]);
+    const source = midiFile([first, melodyTrack([64])]);
+    expect(() => midiToTexts(source)).toThrow(MidiParseError);
+  });
+
+  it("parses SMPTE time division", () => {
+    const division = ((256 - 25) << 8) | 40;
+    const source = midiFile([melodyTrack([60, 64, 67], 500)], division);
+    const result = midiToTexts(source);
+    expect(result.tracks[0].noteCount).toBe(3);
+    expect(result.combinedText).toMatch(/1.*3.*5/);
+  });
+
+  it("keeps zero-length notes", () => {
+    const source = midiFile([
+      midiTrack([
+        [0, [0x90, 60, 0x50]],
+        [0, [0x80, 60, 0x00]],
+      ]),
+    ]);
+    const result = midiToTexts(source);
+    expect(result.tracks).toHaveLength(1);
+    expect(result.combinedText).toMatch(/\nmf 1$/);
+  });
+
+  it("returns a header-only text when no track is left", () => {
+    const source = midiFile([midiTrack([[0, [0xff, 0x01, 0x00]]])]);
+    const text = midiToText(source, { skipEmpty: true });
+    expect(text).toMatch(/^\[Key=C .*\]\n*$/);
+  });
+
+  it("rejects oversized files before parsing", () => {
+    expect(() => checkMidiSize(8 * 1024 * 1024)).not.toThrow();
+    expect(() => checkMidiSize(8 * 1024 * 1024 + 1)).toThrow(
+      expect.objectContaining({ code: "too-large" }),
+    );
+  });
+
+  it("rejects an SMPTE division without ticks per frame", () => {
+    const division = (256 - 25) << 8;
+    const source = midiFile([melodyTrack([60])], division);
+    expect(() => midiToTexts(source)).toThrow(MidiParseError);
+  });
+});
+
+describe("midi drum import", () => {
+  it("maps GM percussion notes and warns about unknown ones", () => {
+    const hits = [35, 37, 54, 64, 81, 27];
+    const source = midiFile([
+      midiTrack(
+        hits.flatMap((note): [number, number[]][] => [
+          [0, [0x99, note, 0x64]],
+          [480, [0x89, note, 0x00]],
+        ]),
+      ),
+    ]);
+    const result = midiToTexts(source);
+    expect(result.combinedText).toMatch(
+      /\nK\.{3}S\.{3}W\.{3}L\.{3} \| B\.{3}S\.{11} \|$/,
+    );
+    expect(result.warnings.join("\n")).toContain("鼓音符 27");
+  });
+
+  it("pads the last bar with rest steps", () => {
+    const source = "[Drums Time=3/4] K...S...K.K. | K...S.......";
+    const text = midiToText(scoreToMidiBuffer(parseScore(source)));
+    expect(text).toMatch(/\nK\.{3}S\.{3}K\.K\. \| K\.{3}S\.{7} \|$/);
+  });
+});
+
+describe("articulations", () => {
+  it("only shortens notes with an articulation mark", () => {
+    const score = parseScore("[Key=C] 1 2' 3^ 4");
+    const bytes = scoreToMidiBuffer(score).toString("hex");
+    expect(bytes).toContain("903c668360803c00");
+    expect(bytes).toContain("903e668170803e00");
+    expect(bytes).toContain("9040668360804000");
+    expect(bytes).toContain("9041668360804100");
+  });
+});
+
+describe("headers", () => {
+  it("reports an invalid time signature", () => {
+    try {
+      parseScore("[Key=C Time=3/5] 1 2 3");
+      expect.unreachable();
+    } catch (error) {
+      expect(error).toBeInstanceOf(ScoreParseError);
+      const [diagnostic] = (error as ScoreParseError).diagnostics;
+      expect(diagnostic).toMatchObject({
+        code: "invalid-time",
+        line: 1,
+        column: 13,
+        length: 3,
+      });
+    }
+  });
+
+  it("reports an ambiguous instrument name", () => {
+    try {
+      parseScore("[Key=C Instr=vi] 1 2 3");
+      expect.unreachable();
+    } catch (error) {
+      expect(error).toBeInstanceOf(ScoreParseError);
+      const [diagnostic] = (error as ScoreParseError).diagnostics;
+      expect(diagnostic).toMatchObject({
+        code: "ambiguous-instrument",
+        column: 14,
+        length: 2,
+      });
+      expect(diagnostic.message).toContain("小提琴(Violin)");
+    }
+  });
+});
+
+describe("diagnostics", () => {
+  it("collects every error with its line and column", () => {
+    try {
+      parseScore("[Key=C] 1 2 x 3 |\n4 (5 6 | 1 2 3 4 |\n7 ? 1");
+      expect.unreachable();
+    } catch (error) {
+      expect(error).toBeInstanceOf(ScoreParseError);
+      const { diagnostics, message } = error as ScoreParseError;
+      expect(
+        diagnostics
+          .filter(({ severity }) => severity === "error")
+          .map(({ line, column, code }) => [line, column, code]),
+      ).toEqual([
+        [1, 13, "unknown-symbol"],
+        [2, 3, "unclosed-chord"],
+        [3, 3, "unknown-symbol"],
+      ]);
+      expect(message).toContain("第 1 行第 13 列: 无法识别的符号: x");
+    }
+  });
+
+  it("warns about bars that do not match the time signature", () => {
+    const score = parseScore("[Key=C Time=3/4] 1 2 3 4 | 5 6 | 1 2 3 |");
+    expect(score.diagnostics).toEqual([
+      {
+        line: 1,
+        column: 26,
+        length: 1,
+        code: "bar-overfull",
+        message: "第 1 小节时值超出: 4 拍，应为 3 拍",
+        severity: "warning",
+      },
+      {
+        line: 1,
+        column: 32,
+        length: 1,
+        code: "bar-short",
+        message: "第 2 小节时值不足: 2 拍，应为 3 拍",
+        severity: "warning",
+      },
+    ]);
+  });
+});
+
+describe("absolute notation", () => {
+  it("reads a lone f as a pitch instead of a dynamic", () => {
+    const score = parseScore("[C Notation=abs] c d e f g a b c'");
+    expect(score.voices[0].events).toHaveLength(8);
+    expect(scoreToText(score)).toContain("C3 D3 E3 F3 | G3 A3 B3 C4");
+  });
+
+  it("keeps word dynamics and reads marked dynamics", () => {
+    const score = parseScore("[C Notation=abs] f p f !f! g ff a");
+    const velocities = score.voices[0].events.map((event) => event.velocity);
+    expect(velocities).toEqual([undefined, 49, 96, 112]);
+  });
+
+  it("writes dynamics that read back unchanged", () => {
+    const text = scoreToText(parseScore("[C Notation=abs] p c !f! d"));
+    expect(text).toContain("!p! C3 !f! D3");
+    expect(scoreToText(parseScore(text))).toBe(text);
+  });
+});
+
+describe("transpose", () => {
+  it("rejects a semitone count that is not a number", () => {
+    const score = parseScore("[Key=C] 1 2 3");
+    expect(() => transposeScore(score, { semitones: NaN })).toThrow();
+  });
+
+  it("keeps the register of each voice when respelling", () => {
+    const score = parseScore(
+      "[Key=C Oct=5] 1 2 3 4\n// Track 2\n[Key=C Oct=3] 1 5 1 5",
+    );
+    const text = scoreToText(
+      transposeScore(score, { key: "G", mode: "respell" }),
+    );
+    expect(text).toContain("Oct=4 Time=4/4]\n4 5 6 6#");
+    expect(text).toContain("Oct=2 Time=4/4]\n4 1+ 4 1+");
+  });
+
+  it("moves to a minor target key", () => {
+    const score = parseScore("[Key=C] 1 2 3 4 | 5 6 7 1 |");
+    const transposed = transposeScore(score, { key: "Am" });
+    expect(transposed.header).toMatchObject({ key: "A", mode: "aeolian" });
+    expect(scoreToText(transposed)).toContain(
+      "[Key=Am Instr=0 BPM=120 Vol=0.8 Oct=3 Time=4/4]\n1 2 3# 4 | 5 6# 7# 1 |",
+    );
+
+    const respelled = transposeScore(score, { key: "Am", mode: "respell" });
+    expect(respelled.header).toMatchObject({ key: "A", mode: "aeolian" });
+    expect(scoreToText(respelled)).toContain(
+      "[Key=Am Instr=0 BPM=120 Vol=0.8 Oct=3 Time=4/4]\n3 4 5 6 | 7 1+ 2+ 3 |",
+    );
+  });
+});
+
+describe("midi header changes", () => {
+  it("ties a held note across a tempo change", () => {
+    const conductor = midiTrack([
+      [0, [0xff, 0x51, 0x03, 0x07, 0xa1, 0x20]],
+      [960, [0xff, 0x51, 0x03, 0x06, 0x1a, 0x80]],
+    ]);
+    const source = midiFile([conductor, melodyTrack([60], 1920)]);
+    const text = midiToText(source, { skipEmpty: true });
+    expect(text).toMatch(/1~&\s*\[BPM=\d+\]\s*1~/);
+    expect(scoreToText(parseScore(text))).toBe(text);
+  });
+
+  it("keeps a tempo change after the last note", () => {
+    const conductor = midiTrack([
+      [0, [0xff, 0x51, 0x03, 0x07, 0xa1, 0x20]],
+      [1920, [0xff, 0x51, 0x03, 0x06, 0x1a, 0x80]],
+    ]);
+    const source = midiFile([conductor, melodyTrack([60, 62])]);
+    const text = midiToText(source, { skipEmpty: true });
+    expect(text).toMatch(/1 2 0~ \| \[BPM=\d+\]$/);
+  });
+});
+
+describe("midi quantize", () => {
+  it("keeps staccato notes short and held notes full", () => {
+    const staccato = midiFile([
+      timedTrack([
+        ...[60, 64, 67, 64].map((note, index): [number, number, number] => [
+          index * 480,
+          200,
+          note,
+        ]),
+        [1920, 1920, 60],
+      ]),
+    ]);
+    expect(midiToText(staccato)).toMatch(/\nmf 1' 3' 5' 3' \| 1~~~ \|$/);
+
+    const tenuto = midiFile([
+      timedTrack(
+        SCALE.slice(0, 4).map((note, index): [number, number, number] => [
+          index * 480,
+          index % 2 === 0 ? 470 : 480,
+          note,
+        ]),
+      ),
+    ]);
+    expect(midiToText(tenuto)).toMatch(/\nmf 1 2 3 4 \|$/);
+  });
+
+  it("snaps jittered eighths to the grid", () => {
+    const jitter = [13, -17, 9, -11, 20, -6, 4, -19];
+    const source = midiFile([
+      timedTrack(
+        SCALE.map((note, index): [number, number, number] => [
+          Math.max(0, index * 240 + jitter[index]),
+          220,
+          note,
+        ]),
+      ),
+    ]);
+    const result = midiToTexts(source);
+    expect(result.tracks[0].quantize).toEqual({ grid: "1/8", swing: null });
+    expect(result.combinedText).toMatch(
+      /\nmf 1\/ 2\/ 3\/ 4\/ 5\/ 6\/ 7\/ 1\+\/ \|$/,
+    );
+  });
+
+  it("straightens swung eighths", () => {
+    const source = midiFile([
+      timedTrack(
+        SCALE.map((note, index): [number, number, number] => [
+          Math.floor(index / 2) * 480 + (index % 2 === 0 ? 0 : 320),
+          index % 2 === 0 ? 310 : 150,
+          note,
+        ]),
+      ),
+    ]);
+    const result = midiToTexts(source);
+    expect(result.tracks[0].quantize?.swing).toBeCloseTo(0.67, 2);
+    expect(result.combinedText).toMatch(
+      /\nmf 1\/ 2\/ 3\/ 4\/ 5\/ 6\/ 7\/ 1\+\/ \|$/,
+    );
+  });
+
+  it("picks a grid per beat for mixed triplets and eighths", () => {
+    const rhythm = (text: string) =>
+      text
+        .slice(text.indexOf("]") + 1)
+        .replace(/\bmf\b/, "")
+        .trim();
+    for (const source of [
+      "[Key=C Time=4/4] {3: 1 2 3} 4 5/ 6/ | 7 1+ 2+ 3+ |",
+      "[Key=C Time=4/4] {3: 1/ 2/ 3/} 4/ 5/ 6 7 | 1+~~~ |",
+    ]) {
+      const result = midiToTexts(scoreToMidiBuffer(parseScore(source)));
+      expect(result.tracks[0].quantize?.grid).toBe("1/4+1/8+1/8t");
+      expect(rhythm(result.combinedText)).toBe(rhythm(source));
+    }
+  });
+
+  it("keeps plain eighths off the triplet grid", () => {
+    const source = midiFile([
+      timedTrack(
+        [0, 480, 720, 960, 1200, 1440].map(
+          (start, index): [number, number, number] => [
+            start,
+            index === 0 || index === 5 ? 480 : 240,
+            [60, 64, 67, 64, 62, 60][index],
+          ],
+        ),
+      ),
+    ]);
+    const result = midiToTexts(source);
+    expect(result.tracks[0].quantize?.grid).toBe("1/4+1/8");
+    expect(result.combinedText).toMatch(/\nmf 1 3\/ 5\/ 3\/ 2\/ 1 \|$/);
+  });
+
+  it("merges chord notes with nearby onsets", () => {
+    const source = midiFile([
+      timedTrack([
+        [0, 480, 60],
+        [12, 470, 64],
+        [5, 475, 67],
+        [480, 480, 62],
+        [470, 490, 65],
+        [960, 960, 60],
+      ]),
+    ]);
+    expect(midiToText(source)).toMatch(/\nmf \(135\) \(24\) 1~ \|$/);
+  });
+});
+
+describe("chord symbols", () => {
+  const pitches = (text: string) =>
+    noteOns(scoreToMidiBuffer(parseScore(`[Chords Key=C Oct=4] ${text}`))).map(
+      ([, note]) => note,
+    );
+
+  it("spells roots and slash basses from letter and accidental", () => {
+    expect(pitches("Cm7")).toEqual([60, 63, 67, 70]);
+    expect(pitches("Cb")).toEqual([59, 63, 66]);
+    expect(pitches("E#")).toEqual([65, 69, 72]);
+    expect(pitches("Fb/B#")).toEqual([60, 64, 68, 71]);
+    expect(pitches("G/B")).toEqual([59, 67, 71, 74]);
+  });
+
+  it("reads Roman numerals in the current key", () => {
+    expect(pitches("[Key=G] V7")).toEqual([62, 66, 69, 72]);
+    expect(pitches("[Key=Am] iv")).toEqual([62, 65, 69]);
+    expect(pitches("bVII")).toEqual([70, 74, 77]);
+    expect(pitches("viio")).toEqual([71, 74, 77]);
+  });
+
+  it("reports unknown qualities and slash basses", () => {
+    for (const [text, code] of [
+      ["Cxyz", "unknown-chord-quality"],
+      ["C/H", "invalid-chord-bass"],
+    ]) {
+      try {
+        parseScore(`[Chords Key=C] ${text}`);
+        expect.unreachable();
+      } catch (error) {
+        expect(error).toBeInstanceOf(ScoreParseError);
+        const [diagnostic] = (error as ScoreParseError).diagnostics;
+        expect(diagnostic).toMatchObject({ code, column: 16 });
+      }
+    }
+  });
+
+  it("plays accompaniment patterns", () => {
+    const pattern = (name: string) =>
+      noteOns(
+        scoreToMidiBuffer(
+          parseScore(`[Chords Key=C Oct=4 Pattern=${name}] C~`),
+        ),
+      );
+    expect(pattern("block")).toEqual([
+      [0, 60],
+      [0, 64],
+      [0, 67],
+    ]);
+    expect(pattern("alberti")).toEqual([
+      [0, 60],
+      [240, 67],
+      [480, 64],
+      [720, 67],
+    ]);
+    expect(pattern("broken")).toEqual([
+      [0, 60],
+      [240, 64],
+      [480, 67],
+      [720, 60],
+    ]);
+    expect(pattern("strum")).toEqual([
+      [0, 60],
+      [20, 64],
+      [40, 67],
+    ]);
+  });
+});
+
+describe("multi-track scores", () => {
+  const source = [
+    "[Key=C Instr=0] 1 2 3 4",
+    "// Track 2",
+    "[Key=C Instr=40 Oct=3] 5 5 5 5",
+    "// Track 3",
+    "[Drums] K.S.K.S.K.S.K.S.",
+    "// Track 4",
+    "[Chords Key=C Instr=24] C G",
+  ].join("\n");
+
+  it("reads one voice per track header", () => {
+    const score = parseScore(source);
+    expect(
+      score.voices.map(({ header }) => [header.kind, header.program]),
+    ).toEqual([
+      ["melody", 0],
+      ["melody", 40],
+      ["drums", 40],
+      ["chords", 24],
+    ]);
+  });
+
+  it("writes one track per voice on its own channel", () => {
+    const buffer = scoreToMidiBuffer(parseScore(source));
+    expect(buffer.readUInt16BE(8)).toBe(1);
+    expect(buffer.readUInt16BE(10)).toBe(4);
+    const channels = midiEvents(buffer).map((events) =>
+      Array.from(
+        new Set(
+          events
+            .filter(({ bytes }) => bytes[0] >= 0x80 && bytes[0] < 0xf0)
+            .map(({ bytes }) => bytes[0] & 0x0f),
+        ),
+      ),
+    );
+    expect(channels).toEqual([[0], [1], [9], [2]]);
+    const programs = midiEvents(buffer).map((events) =>
+      events
+        .filter(({ bytes }) => (bytes[0] & 0xf0) === 0xc0)
+        .map(({ bytes }) => bytes[1]),
+    );
+    expect(programs[0]).toEqual([0]);
+    expect(programs[1]).toEqual([40]);
+    expect(programs[3]).toEqual([24]);
+  });
+
+  it("reads back its own multi-track text", () => {
+    const text = midiToText(scoreToMidiBuffer(parseScore(source)));
+    expect(text.match(/^\/\/ Track \d+$/gm)).toHaveLength(4);
+    const score = parseScore(text);
+    expect(score.voices.map(({ header }) => header.kind)).toEqual([
+      "melody",
+      "melody",
+      "drums",
+      "melody",
+    ]);
+    expect(scoreToText(score, { compressRepeats: true })).toBe(text);
+    expect(noteOns(scoreToMidiBuffer(score)).map(([, note]) => note)).toEqual(
+      noteOns(scoreToMidiBuffer(parseScore(source))).map(([, note]) => note),
+    );
+  });
+});
+
+describe("sub-beat durations", () => {
+  it("halves, dots and groups tuplets", () => {
+    const score = parseScore(
+      "[Key=C] 1/ 2// 3/. 5~/ 4 | {3: 1 2 3} {3: 1/ 2/ 3/} 4 |",
+    );
+    expect(
+      score.voices[0].events.map(({ durationBeats }) =>
+        Number(durationBeats.toFixed(4)),
+      ),
+    ).toEqual([
+      0.5, 0.25, 0.75, 1.5, 1, 0.6667, 0.6667, 0.6667, 0.3333, 0.3333, 0.3333,
+      1,
+    ]);
+    expect(score.totalBeats).toBe(8);
+  });
+
+  it("places sub-beat notes at exact ticks", () => {
+    const score = parseScore("[Key=C] 1/ 2/ {3: 3/ 4/ 5/} 6// 7// 1/ 2~ |");
+    expect(noteOns(scoreToMidiBuffer(score)).map(([tick]) => tick)).toEqual([
+      0, 240, 480, 640, 800, 960, 1080, 1200, 1440,
+    ]);
+  });
+
+  it("writes sub-beat notes and tuplets back as text", () => {
+    const source =
+      "[Key=C Time=4/4] 1/ 3/ 5// 3// 1/. 5// 1 1/ | {3: 1 3 5} {3: 5/ 3/ 1/} 1 |";
+    const rhythm = (text: string) => text.slice(text.indexOf("]") + 1).trim();
+    expect(rhythm(scoreToText(parseScore(source)))).toBe(rhythm(source));
+    expect(rhythm(midiToText(scoreToMidiBuffer(parseScore(source))))).toBe(
+      rhythm(source),
+    );
+  });
+});
+
+describe("inline header changes", () => {
+  const source =
+    "[Key=C BPM=120] 1 2 [BPM=60] 3 4 | [Instr=40 Vol=0.5] 5 6 [Key=G] 1 2 |";
+
+  it("writes tempo, program, volume and key events at their tick", () => {
+    const [events] = midiEvents(scoreToMidiBuffer(parseScore(source)));
+    const at = (status: number, first?: number) =>
+      events
+        .filter(
+          ({ bytes }) =>
+            bytes[0] === status && (first === undefined || bytes[1] === first),
+        )
+        .map(({ tick, bytes }) => [tick, ...bytes.slice(1)]);
+    expect(at(0xff, 0x51)).toEqual([
+      [0, 0x51, 3, 0x07, 0xa1, 0x20],
+      [960, 0x51, 3, 0x0f, 0x42, 0x40],
+    ]);
+    expect(at(0xc0)).toEqual([
+      [0, 0],
+      [1920, 40],
+    ]);
+    expect(at(0xb0, 0x07)).toEqual([
+      [0, 7, 102],
+      [1920, 7, 64],
+    ]);
+    expect(at(0xff, 0x59)).toEqual([
+      [0, 0x59, 2, 0, 0],
+      [2880, 0x59, 2, 1, 0],
+    ]);
+  });
+
+  it("reads the tempo map back from the file", () => {
+    const result = midiToTexts(scoreToMidiBuffer(parseScore(source)));
+    expect(result.tempoMap).toEqual([
+      { beat: 0, bpm: 120 },
+      { beat: 2, bpm: 60 },
+    ]);
+    expect(result.combinedText).toContain("1 2 [BPM=60] 3 4 |");
+  });
+});
+
+describe("keys and modes", () => {
+  const pitches = (text: string) =>
+    noteOns(scoreToMidiBuffer(parseScore(text))).map(([, note]) => note);
+
+  it("reads minor keys", () => {
+    expect(pitches("[Key=Am] 1 2 3 4 5 6 7 1")).toEqual([
+      69, 71, 72, 74, 76, 77, 79, 69,
+    ]);
+    expect(pitches("[Key=F#m] 1 3 5 7")).toEqual([66, 69, 73, 76]);
+  });
+
+  it("switches the scale with Mode", () => {
+    const scale = (mode: string) =>
+      pitches(`[Key=C Mode=${mode}] 1 2 3 4 5 6 7`).map((note) => note - 60);
+    expect(scale("dorian")).toEqual([0, 2, 3, 5, 7, 9, 10]);
+    expect(scale("phrygian")).toEqual([0, 1, 3, 5, 7, 8, 10]);
+    expect(scale("lydian")).toEqual([0, 2, 4, 6, 7, 9, 11]);
+    expect(scale("mixolydian")).toEqual([0, 2, 4, 5, 7, 9, 10]);
+    expect(scale("aeolian")).toEqual([0, 2, 3, 5, 7, 8, 10]);
+    expect(scale("harmonic")).toEqual([0, 2, 3, 5, 7, 8, 11]);
+    expect(scale("melodic")).toEqual([0, 2, 3, 5, 7, 9, 11]);
+  });
+
+  it("writes a minor key signature and imports it in the minor scale", () => {
+    const buffer = scoreToMidiBuffer(
+      parseScore("[Key=Am Time=4/4] 1 2 3 4 | 5 6 7# 1 |"),
+    );
+    const [events] = midiEvents(buffer);
+    expect(
+      events.find(({ bytes }) => bytes[0] === 0xff && bytes[1] === 0x59)?.bytes,
+    ).toEqual([0xff, 0x59, 2, 0, 1]);
+    expect(midiToText(buffer)).toMatch(
+      /^\[Key=Am .*\]\n1 2 3 4 \| 5 6 7# 1 \|$/,
+    );
+  });
+});
+
+describe("repeats and phrases", () => {
+  const degrees = (text: string) =>
+    parseScore(text)
+      .voices[0].events.filter(({ type }) => type !== "change")
+      .map(({ notes }) => notes.map(({ degree }) => degree).join("") || "0")
+      .join(" ");
+
+  it("expands repeat barlines and voltas", () => {
+    expect(degrees("[Key=C] |: 1 2 3 4 :| 5 6 7 1 |")).toBe(
+      "1 2 3 4 1 2 3 4 5 6 7 1",
+    );
+    expect(degrees("[Key=C] |: 1 2 3 4 | [1.] 5 5 5 5 :| [2.] 6 6 6 6 |")).toBe(
+      "1 2 3 4 5 5 5 5 1 2 3 4 6 6 6 6",
+    );
+  });
+
+  it("follows D.C. and D.S. jumps", () => {
+    expect(degrees("[Key=C] 1 1 1 1 | Fine 2 2 2 2 | D.C. al Fine")).toBe(
+      "1 1 1 1 2 2 2 2 1 1 1 1",
+    );
+    expect(
+      degrees(
+        "[Key=C] 1 1 1 1 | Segno 2 2 2 2 | ToCoda 3 3 3 3 | D.S. al Coda | Coda 4 4 4 4 |",
+      ),
+    ).toBe("1 1 1 1 2 2 2 2 3 3 3 3 2 2 2 2 4 4 4 4");
+  });
+
+  it("expands named phrases", () => {
+    expect(degrees("@A = 1 2 3 4 |\n@B = 5 5 5 5 |\n[Key=C] @A @A @B")).toBe(
+      "1 2 3 4 1 2 3 4 5 5 5 5",
+    );
+  });
+
+  it("compresses repeated bars into repeat barlines", () => {
+    const score = parseScore(
+      "[Key=C] 1 2 3 4 | 5 6 7 1 | 1 2 3 4 | 5 6 7 1 | 7 7 7 7 |",
+    );
+    const text = scoreToText(score, { compressRepeats: true });
+    expect(text).toContain("\n|: 1 2 3 4 | 5 6 7 1 :| 7 7 7 7 |");
+    expect(scoreToText(parseScore(text))).toBe(scoreToText(score));
+  });
+});
+
+describe("ornaments", () => {
+  const bends = (buffer: Buffer) =>
+    midiEvents(buffer)
+      .flat()
+      .filter(({ bytes }) => (bytes[0] & 0xf0) === 0xe0)
+      .map(({ tick, bytes }) => [tick, bytes[1] | (bytes[2] << 7)]);
+
+  it("sets the pitch-bend range with an RPN at track start", () => {
+    const [events] = midiEvents(
+      scoreToMidiBuffer(parseScore("[Key=C Bend=12] 1gl 5")),
+    );
+    expect(
+      events
+        .filter(({ bytes }) => bytes[0] === 0xb0 && bytes[1] !== 0x07)
+        .map(({ tick, bytes }) => [tick, bytes[1], bytes[2]]),
+    ).toEqual([
+      [0, 101, 0],
+      [0, 100, 0],
+      [0, 6, 12],
+      [0, 38, 0],
+      [0, 101, 127],
+      [0, 100, 127],
+    ]);
+  });
+
+  it("bends a slide within the bend range", () => {
+    const buffer = scoreToMidiBuffer(parseScore("[Key=C Bend=12] 1gl 5"));
+    const values = bends(buffer);
+    expect(values).toHaveLength(9);
+    expect(values[0][0]).toBeGreaterThanOrEqual(240);
+    expect(
+      values.slice(1, 8).every(([, value], index) => value > values[index][1]),
+    ).toBe(true);
+    expect(values[7][1]).toBe(8192 + Math.round((7 / 12) * 8192));
+    expect(values[8]).toEqual([480, 8192]);
+    expect(noteOns(buffer)).toEqual([
+      [0, 60],
+      [480, 67],
+    ]);
+  });
+
+  it("plays chromatic steps for a slide wider than the bend range", () => {
+    const buffer = scoreToMidiBuffer(parseScore("[Key=C] 1gl 5"));
+    expect(bends(buffer)).toEqual([]);
+    expect(noteOns(buffer)).toEqual([
+      [0, 60],
+      [240, 61],
+      [280, 62],
+      [320, 63],
+      [360, 64],
+      [400, 65],
+      [440, 66],
+      [480, 67],
+    ]);
+  });
+
+  it("expands grace notes, trills and mordents", () => {
+    const notes = noteOns(
+      scoreToMidiBuffer(parseScore("[Key=C] {5}3 3tr 3mor~")),
+    );
+    expect(notes.slice(0, 2)).toEqual([
+      [0, 67],
+      [60, 64],
+    ]);
+    expect(notes.slice(2, 10).map(([, note]) => note)).toEqual([
+      64, 65, 64, 65, 64, 65, 64, 65,
+    ]);
+    expect(notes.slice(10)).toEqual([
+      [960, 64],
+      [1020, 65],
+      [1080, 64],
+    ]);
+  });
+});
+
+describe("lyrics", () => {
+  const lyrics = (text: string) =>
+    parseScore(text)
+      .voices[0].events.filter(({ type }) => type !== "change")
+      .map(({ lyric }) => lyric ?? null);
+
+  it("aligns a lyrics line to notes, skipping rests and tied notes", () => {
+    expect(
+      lyrics("[Key=C] 1 3 0 5 | 3& 3 1 1 |\nLyrics: hel-lo world _ b"),
+    ).toEqual(["hel-", "lo", null, "world", null, null, "b", null]);
+  });
+
+  it("matches inline syllables and a lyrics line", () => {
+    expect(
+      lyrics('[Key=C] 1"一" 1"闪" 5"一" 5"闪" | 6"亮" 6"晶" 5~"晶" |'),
+    ).toEqual(lyrics("[Key=C] 1 1 5 5 | 6 6 5~ |\n歌词: 一 闪 一 闪 亮 晶 晶"));
+  });
+
+  it("warns about syllables left over", () => {
+    const score = parseScore("[Key=C] 1 2 |\nLyrics: a b c d");
+    expect(score.diagnostics).toContainEqual(
+      expect.objectContaining({
+        code: "lyrics-overflow",
+        severity: "warning",
+      }),
+    );
+  });
+
+  it("writes lyric events and reads them back", () => {
+    const source = '[Key=C] 1"一" 1"闪" 5"一" 5"闪" | 6"亮" 6"晶" 5~"晶" |';
+    const buffer = scoreToMidiBuffer(parseScore(source));
+    expect(
+      midiEvents(buffer)
+        .flat()
+        .filter(({ bytes }) => bytes[0] === 0xff && bytes[1] === 0x05)
+        .map(({ tick, bytes }) => [
+          tick,
+          Buffer.from(bytes.slice(3)).toString("utf8"),
+        ]),
+    ).toEqual([
+      [0, "一"],
+      [480, "闪"],
+      [960, "一"],
+      [1440, "闪"],
+      [1920, "亮"],
+      [2400, "晶"],
+      [2880, "晶"],
+    ]);
+    expect(midiToText(buffer)).toMatch(
+      /\n1"一" 1"闪" 5"一" 5"闪" \| 6"亮" 6"晶" 5~"晶" \|$/,
+    );
+  });
+});
+
+describe("midi key detection", () => {
+  const EB_MAJOR = [63, 65, 67, 68, 70, 72, 74, 75, 70, 67, 63, 58];
+  const withSignature = (sharps: number, minor: number) =>
+    midiFile([
+      midiTrack([
+        [0, [0xff, 0x59, 0x02, sharps & 0xff, minor]],
+        ...EB_MAJOR.flatMap((note): [number, number[]][] => [
+          [0, [0x90, note, 0x50]],
+          [480, [0x80, note, 0x00]],
+        ]),
+      ]),
+    ]);
+
+  it("detects the key and writes the melody without accidentals", () => {
+    const result = midiToTexts(midiFile([melodyTrack(EB_MAJOR)]));
+    expect(result.tracks[0].key).toEqual({
+      key: "Eb",
+      mode: "major",
+      confidence: 0.96,
+      source: "detected",
+    });
+    expect(result.combinedText).toMatch(
+      /^\[Key=Eb .*Oct=4 .*\]\nmf 1 2 3 4 \| 5 6 7 1\+ \| 5 3 1 5- \|$/,
+    );
+  });
+
+  it("keeps a key signature that fits the notes", () => {
+    const [track] = midiToTexts(withSignature(-3, 0)).tracks;
+    expect(track.key).toMatchObject({ key: "Eb", source: "signature" });
+  });
+
+  it("overrides a key signature that does not fit the notes", () => {
+    const [track] = midiToTexts(withSignature(2, 0)).tracks;
+    expect(track.key).toMatchObject({ key: "Eb", source: "detected" });
+  });
+
+  it("reports no confidence for a chromatic run", () => {
+    const notes = Array.from({ length: 12 }, (_, index) => 60 + index);
+    const [track] = midiToTexts(midiFile([melodyTrack(notes)])).tracks;
+    expect(track.key?.confidence).toBe(0);
+  });
+
+  it("picks the reference octave of the melody", () => {
+    const notes = EB_MAJOR.map((note) => note + 12);
+    const text = midiToText(midiFile([melodyTrack(notes)]));
+    expect(text).toMatch(/Oct=5 .*\]\nmf 1 2 3 4 \|/);
+  });
+});
+
+describe("midi track selection", () => {
+  const metaText = (type: number, text: string) => [
+    0xff,
+    type,
+    text.length,
+    ...Buffer.from(text),
+  ];
+  const channelNotes = (channel: number, notes: number[]) =>
+    notes.flatMap((note): [number, number[]][] => [
+      [0, [0x90 | channel, note, 0x50]],
+      [480, [0x80 | channel, note, 0x00]],
+    ]);
+  const source = midiFile([
+    midiTrack([
+      [0, [0xff, 0x51, 0x03, 0x07, 0xa1, 0x20]],
+      [0, [0xff, 0x58, 0x04, 0x04, 0x02, 0x18, 0x08]],
+    ]),
+    midiTrack([
+      [0, metaText(0x03, "Melody")],
+      [0, metaText(0x04, "Flute")],
+      [0, [0xc0, 73]],
+      ...channelNotes(0, SCALE),
+    ]),
+    midiTrack([
+      [0, metaText(0x03, "Bass")],
+      [0, [0xc1, 32]],
+      ...channelNotes(1, [36, 43, 36, 43, 41, 48, 43, 36]),
+    ]),
+  ]);
+  const info = (options: MidiImportOptions = {}) =>
+    midiToTexts(source, options).tracks.map(
+      ({ track, name, instrumentName, noteCount, pitchRange }) => ({
+        track,
+        name,
+        instrumentName,
+        noteCount,
+        pitchRange,
+      }),
+    );
+
+  it("reports names, note counts and pitch ranges", () => {
+    expect(info()).toEqual([
+      {
+        track: 0,
+        name: null,
+        instrumentName: null,
+        noteCount: 0,
+        pitchRange: null,
+      },
+      {
+        track: 1,
+        name: "Melody",
+        instrumentName: "Flute",
+        noteCount: 8,
+        pitchRange: { low: 60, high: 72 },
+      },
+      {
+        track: 2,
+        name: "Bass",
+        instrumentName: null,
+        noteCount: 8,
+        pitchRange: { low: 36, high: 48 },
+      },
+    ]);
+  });
+
+  it("drops empty tracks and selects by index or name", () => {
+    expect(info({ skipEmpty: true }).map(({ track }) => track)).toEqual([1, 2]);
+    expect(info({ tracks: [2] }).map(({ track }) => track)).toEqual([2]);
+    expect(
+      info({ tracks: ["flute", "BASS"] }).map(({ track }) => track),
+    ).toEqual([1, 2]);
+    expect(() => midiToTexts(source, { tracks: ["nope"] })).toThrow(
+      "没有匹配的轨道: nope",
+    );
+  });
+
+  it("excerpts a bar range", () => {
+    const result = midiToTexts(source, { bars: [2, 2], tracks: ["bass"] });
+    expect(result.tracks[0]).toMatchObject({
+      noteCount: 4,
+      pitchRange: { low: 36, high: 48 },
+    });
+    expect(result.combinedText).toMatch(/\nmf 4 1\+ 5 1 \|$/);
+    expect(() => midiToTexts(source, { bars: [3, 1] })).toThrow(
+      "无效的小节范围",
+    );
+  });
+
+  it("excerpts a time range", () => {
+    const result = midiToTexts(source, { seconds: [1, 2], tracks: [2] });
+    expect(result.tracks[0]).toMatchObject({
+      noteCount: 2,
+      pitchRange: { low: 36, high: 43 },
+    });
+    expect(result.combinedText).toMatch(/\nmf 1 5$/);
+  });
+});
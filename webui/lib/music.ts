@@ -4,16 +4,219 @@ import crypto from "node:crypto";
 import * as JSSynth from "js-synthesizer";
 import libfluidsynth from "js-synthesizer/libfluidsynth";
 import lamejs from "lamejs";
+import { instrumentCandidates, suggestInstruments } from "./instruments";
+import {
+  defaultSoundfontPath,
+  isSoundfontName,
+  resolveSoundfontPath,
+} from "./soundfonts";
 
-const DEFAULT_HEADER = {
+export const DEFAULT_HEADER: ScoreHeader = {
+  kind: "melody",
   key: "C",
+  mode: "major",
   bpm: 120,
   volume: 0.8,
   octave: 4,
   program: 0,
+  time: "4/4",
+  pattern: "block",
+  bendRange: 2,
+  notation: "jianpu",
 };
 
-const MAJOR_SCALE = [0, 2, 4, 5, 7, 9, 11];
+const MODE_SCALES: Record<string, number[]> = {
+  major: [0, 2, 4, 5, 7, 9, 11],
+  dorian: [0, 2, 3, 5, 7, 9, 10],
+  phrygian: [0, 1, 3, 5, 7, 8, 10],
+  lydian: [0, 2, 4, 6, 7, 9, 11],
+  mixolydian: [0, 2, 4, 5, 7, 9, 10],
+  aeolian: [0, 2, 3, 5, 7, 8, 10],
+  locrian: [0, 1, 3, 5, 6, 8, 10],
+  harmonic: [0, 2, 3, 5, 7, 8, 11],
+  melodic: [0, 2, 3, 5, 7, 9, 11],
+};
+
+const MODE_ALIASES: Record<string, string> = {
+  ionian: "major",
+  minor: "aeolian",
+  "harmonic-minor": "harmonic",
+  "melodic-minor": "melodic",
+};
+
+const MODE_RELATIVE_MAJOR: Record<string, number> = {
+  major: 0,
+  dorian: 2,
+  phrygian: 4,
+  lydian: 5,
+  mixolydian: 7,
+  aeolian: 9,
+  locrian: 11,
+  harmonic: 9,
+  melodic: 9,
+};
+
+const CHORD_QUALITIES: Record<string, number[]> = {
+  "": [0, 4, 7],
+  M: [0, 4, 7],
+  maj: [0, 4, 7],
+  m: [0, 3, 7],
+  min: [0, 3, 7],
+  "-": [0, 3, 7],
+  dim: [0, 3, 6],
+  o: [0, 3, 6],
+  aug: [0, 4, 8],
+  "+": [0, 4, 8],
+  sus2: [0, 2, 7],
+  sus4: [0, 5, 7],
+  sus: [0, 5, 7],
+  "5": [0, 7],
+  "6": [0, 4, 7, 9],
+  m6: [0, 3, 7, 9],
+  "7": [0, 4, 7, 10],
+  maj7: [0, 4, 7, 11],
+  M7: [0, 4, 7, 11],
+  m7: [0, 3, 7, 10],
+  min7: [0, 3, 7, 10],
+  mmaj7: [0, 3, 7, 11],
+  m7b5: [0, 3, 6, 10],
+  dim7: [0, 3, 6, 9],
+  o7: [0, 3, 6, 9],
+  aug7: [0, 4, 8, 10],
+  "+7": [0, 4, 8, 10],
+  "7sus4": [0, 5, 7, 10],
+  add9: [0, 4, 7, 14],
+  madd9: [0, 3, 7, 14],
+  "9": [0, 4, 7, 10, 14],
+  maj9: [0, 4, 7, 11, 14],
+  m9: [0, 3, 7, 10, 14],
+  "11": [0, 4, 7, 10, 14, 17],
+  "13": [0, 4, 7, 10, 14, 21],
+};
+
+const DRUM_CODES: Record<string, number> = {
+  K: 36,
+  S: 38,
+  X: 39,
+  H: 42,
+  P: 44,
+  O: 46,
+  L: 45,
+  M: 47,
+  T: 50,
+  C: 49,
+  R: 51,
+  B: 53,
+  W: 56,
+};
+
+const GM_DRUM_CODES: Record<number, string> = {
+  35: "K",
+  36: "K",
+  37: "S",
+  38: "S",
+  39: "X",
+  40: "S",
+  41: "L",
+  42: "H",
+  43: "L",
+  44: "P",
+  45: "L",
+  46: "O",
+  47: "M",
+  48: "M",
+  49: "C",
+  50: "T",
+  51: "R",
+  52: "C",
+  53: "B",
+  54: "W",
+  55: "C",
+  56: "W",
+  57: "C",
+  58: "W",
+  59: "R",
+  60: "T",
+  61: "M",
+  62: "T",
+  63: "M",
+  64: "L",
+  65: "T",
+  66: "M",
+  67: "W",
+  68: "W",
+  69: "H",
+  70: "H",
+  71: "W",
+  72: "W",
+  73: "W",
+  74: "W",
+  75: "X",
+  76: "W",
+  77: "W",
+  78: "W",
+  79: "W",
+  80: "B",
+  81: "B",
+};
+
+const DEFAULT_DRUM_CODE = "S";
+
+const ORNAMENT_SUFFIXES: [string, Ornament][] = [
+  ["tr", "trill"],
+  ["mor", "mordent"],
+  ["gl", "glide"],
+];
+
+const ABSOLUTE_PITCH = /^([A-Ga-g])(##|#|bb|b)?(?:(\d)|('+|,+))?/;
+
+const NOTATION_ALIASES: Record<string, Notation> = {
+  abs: "abs",
+  absolute: "abs",
+  jianpu: "jianpu",
+  degree: "jianpu",
+};
+
+const DRUM_CHANNEL = 9;
+
+const DRUM_STEP_BEATS = 0.25;
+
+const MAX_IMPORT_VOICES = 4;
+
+const MAX_MIDI_BYTES = 8 * 1024 * 1024;
+
+const MAX_MIDI_EVENTS = 500000;
+
+const MAX_MIDI_BEATS = 20000;
+
+const SMPTE_FRAME_RATES: Record<number, number> = {
+  24: 24,
+  25: 25,
+  29: 29.97,
+  30: 30,
+};
+
+const MAJOR_KEY_PROFILE = [
+  6.35, 2.23, 3.48, 2.33, 4.38, 4.09, 2.52, 5.19, 2.39, 3.66, 2.29, 2.88,
+];
+const MINOR_KEY_PROFILE = [
+  6.33, 2.68, 3.52, 5.38, 2.6, 3.53, 2.54, 4.75, 3.98, 2.69, 3.34, 3.17,
+];
+
+const GRID_DIVISIONS: Record<string, number> = {
+  "1/4": 1,
+  "1/8": 2,
+  "1/8t": 3,
+  "1/16": 4,
+  "1/16t": 6,
+};
+
+const ROMAN_DEGREES = ["i", "ii", "iii", "iv", "v", "vi", "vii"];
+
+const ACCOMPANIMENT_PATTERNS = ["block", "alberti", "broken", "strum"];
+
+const SHARP_KEY_NAMES = ["C", "C#", "D", "D#", "E", "F", "F#", "G", "G#", "A", "A#", "B"];
+const FLAT_KEY_NAMES = ["C", "Db", "D", "Eb", "E", "F", "Gb", "G", "Ab", "A", "Bb", "B"];
 
 const KEY_OFFSETS: Record<string, number> = {
   C: 0,
@@ -35,36 +238,200 @@ const KEY_OFFSETS: Record<string, number> = {
   B: 11,
 };
 
-const INSTRUMENT_MAP: Record<string, number> = {
-  piano: 0,
+export const STEP_OFFSETS: Record<string, number> = {
+  C: 0,
+  D: 2,
+  E: 4,
+  F: 5,
+  G: 7,
+  A: 9,
+  B: 11,
+};
+
+export const DYNAMIC_VELOCITIES: Record<string, number> = {
+  ppp: 16,
+  pp: 33,
+  p: 49,
+  mp: 64,
+  mf: 80,
+  f: 96,
+  ff: 112,
+  fff: 127,
+};
+
+const ACCENT_BOOST = 20;
+
+const MAX_EXPANDED_EVENTS = 20000;
+
+const STRUCTURE_WORDS: Record<string, StructureMarker["kind"]> = {
+  Segno: "segno",
+  Fine: "fine",
+  ToCoda: "to-coda",
+  Coda: "coda",
+  "D.C.": "da-capo",
+  "D.S.": "dal-segno",
+};
+
+const GATE_RATIOS: Record<Articulation, number> = {
+  staccato: 0.5,
+  tenuto: 1,
 };
 
-type ScoreHeader = {
+type VoiceKind = "melody" | "chords" | "drums";
+
+export type Notation = "jianpu" | "abs";
+
+export type ScoreHeader = {
+  kind: VoiceKind;
   key: string;
+  mode: string;
   bpm: number;
   volume: number;
   octave: number;
   program: number;
+  time: string;
+  pattern: string;
+  bendRange: number;
+  notation: Notation;
+  font?: string;
 };
 
-type NoteSpec = {
+export type NoteSpec = {
   degree: number;
   octaveShift: number;
   accidental: number;
 };
 
-type ScoreEvent = {
-  type: "note" | "chord" | "rest";
+type Articulation = "staccato" | "tenuto";
+
+type Ornament = "trill" | "mordent" | "glide";
+
+export type ScoreEvent = {
+  type: "note" | "chord" | "rest" | "change";
   durationBeats: number;
   notes: NoteSpec[];
+  symbol?: string;
+  drums?: number[];
+  graces?: NoteSpec[];
+  ornament?: Ornament;
+  lyric?: string;
+  changes?: Partial<ScoreHeader>;
+  velocity?: number;
+  accent?: boolean;
+  articulation?: Articulation;
+  tie?: boolean;
 };
 
-export type ParsedScore = {
+export type ScoreDiagnostic = {
+  line: number;
+  column: number;
+  length: number;
+  code: string;
+  message: string;
+  severity: "error" | "warning";
+};
+
+export type StructureMarker = {
+  kind:
+    | "repeat-start"
+    | "repeat-end"
+    | "volta"
+    | "segno"
+    | "fine"
+    | "to-coda"
+    | "coda"
+    | "da-capo"
+    | "dal-segno";
+  eventIndex: number;
+  endings?: number[];
+};
+
+export type ScoreVoice = {
   header: ScoreHeader;
   events: ScoreEvent[];
   totalBeats: number;
 };
 
+export type QuantizeInfo = {
+  grid: string;
+  swing: number | null;
+};
+
+export type KeyDetection = {
+  key: string;
+  mode: string;
+  confidence: number;
+  source: "detected" | "signature";
+};
+
+export type ParsedScore = {
+  header: ScoreHeader;
+  voices: ScoreVoice[];
+  totalBeats: number;
+  diagnostics?: ScoreDiagnostic[];
+  quantize?: QuantizeInfo;
+  keyDetection?: KeyDetection;
+  channel?: number;
+  midiTrack?: MidiTrackInfo;
+};
+
+export type ScoreTextOptions = {
+  compressRepeats?: boolean;
+  notation?: Notation;
+};
+
+export type MidiImportOptions = {
+  grid?: string;
+  tracks?: (number | string)[];
+  skipEmpty?: boolean;
+  bars?: [number, number];
+  seconds?: [number, number];
+  notation?: Notation;
+};
+
+export type MidiTrackInfo = {
+  track: number;
+  name: string | null;
+  instrumentName: string | null;
+  noteCount: number;
+  pitchRange: { low: number; high: number } | null;
+};
+
+export type MidiErrorCode =
+  | "too-large"
+  | "invalid-header"
+  | "unsupported-format"
+  | "invalid-division"
+  | "invalid-track"
+  | "invalid-event"
+  | "truncated"
+  | "too-many-events"
+  | "too-long";
+
+export type TransposeOptions = {
+  semitones?: number;
+  key?: string;
+  mode?: "transpose" | "respell";
+};
+
+type TextToken = {
+  text: string;
+  beats: number;
+  time?: string;
+  repeatStart?: boolean;
+  repeatEnd?: boolean;
+};
+
+type TempoPoint = {
+  beat: number;
+  bpm: number;
+};
+
+type TimeSignaturePoint = {
+  beat: number;
+  time: string;
+};
+
 type MidiEvent = {
   tick: number;
   order: number;
@@ -75,7 +442,7 @@ let synthReady: Promise<void> | null = null;
 
 function ensureSynthReady() {
   if (!synthReady) {
-    JSSynth.Synthesizer.initializeWithFluidSynthModule(libfluidsynth as any);
+    JSSynth.Synthesizer.initializeWithFluidSynthModule(libfluidsynth);
     synthReady = JSSynth.waitForReady();
   }
   return synthReady;
@@ -85,25 +452,121 @@ function clamp(value: number, min: number, max: number) {
   return Math.max(min, Math.min(max, value));
 }
 
-function parseHeader(input: string): { header: ScoreHeader; rest: string } {
-  const match = input.match(/^\s*\[([^\]]+)\]/);
+export function parseTimeSignature(value: string) {
+  const match = value.match(/^(\d+)\/(\d+)$/);
   if (!match) {
-    return { header: { ...DEFAULT_HEADER }, rest: input };
+    return null;
+  }
+  const numerator = Number(match[1]);
+  const denominator = Number(match[2]);
+  const isPowerOfTwo = (denominator & (denominator - 1)) === 0;
+  if (numerator < 1 || numerator > 32 || denominator < 1 || denominator > 32 || !isPowerOfTwo) {
+    return null;
+  }
+  return { numerator, denominator };
+}
+
+export function barLengthBeats(time: string) {
+  const meter = parseTimeSignature(time) ?? { numerator: 4, denominator: 4 };
+  return (meter.numerator * 4) / meter.denominator;
+}
+
+function parseKeyName(value: string) {
+  const match = value.match(/^([A-Ga-g])([#b]?)(m|min|minor)?$/);
+  if (!match) {
+    return null;
+  }
+  const key = match[1].toUpperCase() + match[2];
+  if (KEY_OFFSETS[key] === undefined) {
+    return null;
+  }
+  return { key, mode: match[3] ? "aeolian" : "major" };
+}
+
+function normalizeMode(value: string) {
+  const mode = value.toLowerCase();
+  const resolved = MODE_ALIASES[mode] ?? mode;
+  return MODE_SCALES[resolved] ? resolved : null;
+}
+
+function scaleFor(header: ScoreHeader) {
+  return MODE_SCALES[header.mode] ?? MODE_SCALES.major;
+}
+
+function parseProgram(
+  value: string,
+  context?: ParseContext,
+  index = 0,
+): number | null {
+  const programNumber = Number(value);
+  if (!Number.isNaN(programNumber)) {
+    return clamp(Math.round(programNumber), 0, 127);
+  }
+  const matches = instrumentCandidates(value);
+  if (matches.length === 1) {
+    return matches[0].program;
   }
+  if (context && matches.length > 1) {
+    const candidates = matches
+      .map((item) => `${item.zh}(${item.name})`)
+      .join("、");
+    report(
+      context,
+      index,
+      value.length,
+      "ambiguous-instrument",
+      `乐器名称不明确: ${value}，可能是: ${candidates}`,
+    );
+  } else if (context) {
+    const candidates = suggestInstruments(value)
+      .map((item) => `${item.zh}(${item.name})`)
+      .join("、");
+    report(
+      context,
+      index,
+      value.length,
+      "unknown-instrument",
+      `无法识别的乐器: ${value}，可能是: ${candidates}`,
+    );
+  }
+  return null;
+}
 
-  const headerText = match[1].trim();
-  const header: ScoreHeader = { ...DEFAULT_HEADER };
+function parseHeader(
+  rawHeaderText: string,
+  base: ScoreHeader,
+  context?: ParseContext,
+  offset = 0,
+): ScoreHeader {
+  const header: ScoreHeader = { ...base };
+  const headerText = rawHeaderText.replace(
+    /(^|\s)(chords|drums)(?=\s|$)/gi,
+    (match, _, flag: string) => {
+      header.kind = flag.toLowerCase() === "drums" ? "drums" : "chords";
+      return " ".repeat(match.length);
+    },
+  );
   const pairs = Array.from(headerText.matchAll(/([A-Za-z]+)\s*=\s*([^\s]+)/g));
 
   if (pairs.length === 0) {
     const tokens = headerText.split(/\s+/).filter(Boolean);
     if (tokens.length >= 1) {
-      header.key = tokens[0].charAt(0).toUpperCase() + tokens[0].slice(1);
+      const parsedKey = parseKeyName(tokens[0]);
+      if (parsedKey) {
+        header.key = parsedKey.key;
+        header.mode = parsedKey.mode;
+      } else {
+        header.key = tokens[0].charAt(0).toUpperCase() + tokens[0].slice(1);
+      }
     }
     if (tokens.length >= 2) {
-      const programNumber = Number(tokens[1]);
-      if (!Number.isNaN(programNumber)) {
-        header.program = clamp(Math.round(programNumber), 0, 127);
+      const programIndex = headerText.indexOf(
+        tokens[1],
+        headerText.indexOf(tokens[0]) + tokens[0].length,
+      );
+      const program = parseProgram(tokens[1], context, offset + programIndex);
+      if (program !== null) {
+        header.program = program;
       }
     }
     if (tokens.length >= 3) {
@@ -112,27 +575,77 @@ function parseHeader(input: string): { header: ScoreHeader; rest: string } {
         header.bpm = bpm;
       }
     }
-    return { header, rest: input.slice(match[0].length) };
+    return header;
   }
 
-  for (const [, keyRaw, valueRaw] of pairs) {
+  let explicitMode: string | null = null;
+
+  for (const pair of pairs) {
+    const [match, keyRaw, valueRaw] = pair;
     const key = keyRaw.toLowerCase();
     const value = valueRaw.trim();
+    const valueIndex =
+      offset + (pair.index ?? 0) + match.length - valueRaw.length;
 
     if (key === "key") {
-      header.key = value.charAt(0).toUpperCase() + value.slice(1);
+      const parsedKey = parseKeyName(value);
+      if (parsedKey) {
+        header.key = parsedKey.key;
+        header.mode = parsedKey.mode;
+      } else {
+        header.key = value.charAt(0).toUpperCase() + value.slice(1);
+      }
+      continue;
+    }
+
+    if (key === "mode") {
+      explicitMode = normalizeMode(value) ?? explicitMode;
+      continue;
+    }
+
+    if (key === "notation") {
+      const notation = NOTATION_ALIASES[value.toLowerCase()];
+      if (notation) {
+        header.notation = notation;
+      }
+      continue;
+    }
+
+    if (key === "font" || key === "soundfont") {
+      if (isSoundfontName(value)) {
+        header.font = value;
+      } else if (context) {
+        report(
+          context,
+          valueIndex,
+          value.length,
+          "invalid-font",
+          `音色库名称无效: ${value}`,
+        );
+      }
+      continue;
+    }
+
+    if (key === "pattern") {
+      const pattern = value.toLowerCase();
+      if (ACCOMPANIMENT_PATTERNS.includes(pattern)) {
+        header.pattern = pattern;
+      }
       continue;
     }
 
     if (key === "instr" || key === "program") {
-      const programNumber = Number(value);
-      if (!Number.isNaN(programNumber)) {
-        header.program = clamp(Math.round(programNumber), 0, 127);
-      } else {
-        const mapped = INSTRUMENT_MAP[value.toLowerCase()];
-        if (mapped !== undefined) {
-          header.program = mapped;
-        }
+      const program = parseProgram(value, context, valueIndex);
+      if (program !== null) {
+        header.program = program;
+      }
+      continue;
+    }
+
+    if (key === "bend") {
+      const bendRange = Number(value);
+      if (!Number.isNaN(bendRange) && bendRange >= 1 && bendRange <= 24) {
+        header.bendRange = Math.round(bendRange);
       }
       continue;
     }
@@ -158,24 +671,130 @@ function parseHeader(input: string): { header: ScoreHeader; rest: string } {
       if (!Number.isNaN(oct)) {
         header.octave = Math.round(oct);
       }
+      continue;
+    }
+
+    if (key === "time") {
+      const meter = parseTimeSignature(value);
+      if (meter) {
+        header.time = `${meter.numerator}/${meter.denominator}`;
+      } else if (context) {
+        report(
+          context,
+          valueIndex,
+          value.length,
+          "invalid-time",
+          `拍号无效: ${value}`,
+        );
+      }
+    }
+  }
+
+  if (explicitMode) {
+    header.mode = explicitMode;
+  }
+
+  return header;
+}
+
+type ParseContext = {
+  input: string;
+  diagnostics: ScoreDiagnostic[];
+};
+
+function positionAt(input: string, index: number) {
+  let line = 1;
+  let lineStart = 0;
+  for (let i = 0; i < index && i < input.length; i += 1) {
+    if (input[i] === "\n") {
+      line += 1;
+      lineStart = i + 1;
     }
   }
+  return { line, column: index - lineStart + 1 };
+}
+
+function report(
+  context: ParseContext,
+  index: number,
+  length: number,
+  code: string,
+  message: string,
+  severity: ScoreDiagnostic["severity"] = "error",
+) {
+  const { line, column } = positionAt(context.input, index);
+  const duplicate = context.diagnostics.some(
+    (diagnostic) =>
+      diagnostic.line === line &&
+      diagnostic.column === column &&
+      diagnostic.code === code,
+  );
+  if (duplicate) {
+    return;
+  }
+  context.diagnostics.push({
+    line,
+    column,
+    length: Math.max(1, length),
+    code,
+    message,
+    severity,
+  });
+}
+
+function skipToken(input: string, startIndex: number) {
+  let i = startIndex + 1;
+  while (i < input.length && !/[\s}]/.test(input[i])) {
+    i += 1;
+  }
+  return i;
+}
 
-  return { header, rest: input.slice(match[0].length) };
+function findClosing(input: string, startIndex: number, closing: string) {
+  for (let i = startIndex + 1; i < input.length; i += 1) {
+    const ch = input[i];
+    if (ch === closing) {
+      return i;
+    }
+    if (ch === "\n" || ch === input[startIndex]) {
+      return -1;
+    }
+  }
+  return -1;
 }
 
-function parseNoteSpecs(segment: string): NoteSpec[] {
+function parseNoteSpecs(
+  context: ParseContext,
+  startIndex: number,
+  endIndex: number,
+  header: ScoreHeader,
+): NoteSpec[] {
+  const segment = context.input;
   const notes: NoteSpec[] = [];
-  let i = 0;
+  let i = startIndex;
 
-  while (i < segment.length) {
+  while (i < endIndex) {
     const ch = segment[i];
     if (/\s/.test(ch)) {
       i += 1;
       continue;
     }
+    if (isAbsolute(header) && /[A-Ga-g]/.test(ch)) {
+      const [note, nextIndex] = parseAbsoluteNoteAt(context, i, header);
+      notes.push(note);
+      i = nextIndex;
+      continue;
+    }
     if (!/[1-7]/.test(ch)) {
-      throw new Error(`和弦内仅允许音符与音高修饰符: ${segment}`);
+      report(
+        context,
+        i,
+        1,
+        "invalid-chord-note",
+        `和弦内仅允许音符与音高修饰符: ${ch}`,
+      );
+      i += 1;
+      continue;
     }
 
     const degree = Number(ch);
@@ -183,7 +802,7 @@ function parseNoteSpecs(segment: string): NoteSpec[] {
 
     let octaveShift = 0;
     let accidental = 0;
-    while (i < segment.length) {
+    while (i < endIndex) {
       const mod = segment[i];
       if (mod === "+") {
         octaveShift += 1;
@@ -212,11 +831,17 @@ function parseNoteSpecs(segment: string): NoteSpec[] {
 
 function parseDuration(text: string, startIndex: number): [number, number] {
   let i = startIndex;
+  let halveCount = 0;
   let dotCount = 0;
   let sustainCount = 0;
 
   while (i < text.length) {
     const ch = text[i];
+    if (ch === "/") {
+      halveCount += 1;
+      i += 1;
+      continue;
+    }
     if (ch === ".") {
       dotCount += 1;
       i += 1;
@@ -231,255 +856,2250 @@ function parseDuration(text: string, startIndex: number): [number, number] {
   }
 
   const dotMultiplier = Math.pow(1.5, dotCount);
-  const duration = 1 * dotMultiplier + sustainCount;
+  const duration = Math.pow(0.5, halveCount) * dotMultiplier + sustainCount;
 
   return [duration, i];
 }
 
-export function parseScore(input: string): ParsedScore {
-  const { header, rest } = parseHeader(input);
-  const events: ScoreEvent[] = [];
-  let i = 0;
-  let totalBeats = 0;
-
-  while (i < rest.length) {
-    const ch = rest[i];
-    if (/\s/.test(ch)) {
-      i += 1;
-      continue;
+function parseArticulations(
+  input: string,
+  startIndex: number,
+  event: ScoreEvent,
+): number {
+  let i = startIndex;
+  while (i < input.length) {
+    const ch = input[i];
+    if (ch === ">") {
+      event.accent = true;
+    } else if (ch === "'") {
+      event.articulation = "staccato";
+    } else if (ch === "^") {
+      event.articulation = "tenuto";
+    } else if (ch === "&") {
+      event.tie = true;
+    } else {
+      break;
     }
+    i += 1;
+  }
+  return i;
+}
 
-    if (ch === "(") {
-      const endIndex = rest.indexOf(")", i + 1);
-      if (endIndex === -1) {
-        throw new Error("和弦缺少右括号 )");
-      }
-      const chordBody = rest.slice(i + 1, endIndex);
-      const notes = parseNoteSpecs(chordBody);
-      if (notes.length === 0) {
-        throw new Error("和弦内必须包含至少一个音符");
-      }
-      i = endIndex + 1;
-      const [duration, nextIndex] = parseDuration(rest, i);
-      i = nextIndex;
-      events.push({ type: "chord", durationBeats: duration, notes });
-      totalBeats += duration;
-      continue;
+function parseMarkedDuration(
+  input: string,
+  startIndex: number,
+  event: ScoreEvent,
+): number {
+  const [duration, nextIndex] = parseDuration(
+    input,
+    parseArticulations(input, startIndex, event),
+  );
+  event.durationBeats = duration;
+  return parseArticulations(input, nextIndex, event);
+}
+
+function parseNoteAt(input: string, startIndex: number): [NoteSpec, number] {
+  const degree = Number(input[startIndex]);
+  let i = startIndex + 1;
+  let octaveShift = 0;
+  let accidental = 0;
+  while (i < input.length) {
+    const mod = input[i];
+    if (mod === "+") {
+      octaveShift += 1;
+    } else if (mod === "-") {
+      octaveShift -= 1;
+    } else if (mod === "#") {
+      accidental += 1;
+    } else if (mod === "b") {
+      accidental -= 1;
+    } else if (mod === "_") {
+      accidental += 1;
+    } else {
+      break;
     }
+    i += 1;
+  }
+  return [{ degree, octaveShift, accidental }, i];
+}
+
+function isAbsolute(header: ScoreHeader) {
+  return header.notation === "abs" && header.kind === "melody";
+}
+
+function parseAbsoluteNoteAt(
+  context: ParseContext,
+  startIndex: number,
+  header: ScoreHeader,
+): [NoteSpec, number] {
+  const match = context.input.slice(startIndex).match(ABSOLUTE_PITCH)!;
+  const step = match[1].toUpperCase();
+  const accidentals = match[2] ?? "";
+  const accidental = accidentals.startsWith("#")
+    ? accidentals.length
+    : -accidentals.length;
+  const marks = match[4] ?? "";
+  const octave =
+    match[3] !== undefined
+      ? Number(match[3])
+      : (match[1] === step ? 2 : 3) +
+        (marks.startsWith("'") ? marks.length : -marks.length);
+  const midi = 12 * (octave + 1) + STEP_OFFSETS[step] + accidental;
+  if (midi < 0 || midi > 127) {
+    report(
+      context,
+      startIndex,
+      match[0].length,
+      "pitch-out-of-range",
+      `音高超出 MIDI 范围: ${match[0]}`,
+    );
+  }
+  return [
+    midiNoteToSpec(clamp(midi, 0, 127), header),
+    startIndex + match[0].length,
+  ];
+}
+
+function defaultTupletSpan(count: number) {
+  if (count === 2) {
+    return 3;
+  }
+  let span = 1;
+  while (span * 2 < count) {
+    span *= 2;
+  }
+  return span;
+}
+
+function parseTupletAt(
+  context: ParseContext,
+  startIndex: number,
+  header: ScoreHeader,
+): [ScoreEvent[], number] {
+  const input = context.input;
+  const ratio = input.slice(startIndex).match(/^\{\s*(\d+)\s*(?::\s*(\d+)\s*)?:/);
+  if (!ratio) {
+    const endIndex = input.indexOf("}", startIndex + 1);
+    report(
+      context,
+      startIndex,
+      1,
+      "invalid-tuplet",
+      "连音需写作 {3: 1 2 3} 或 {5:4: ...}",
+    );
+    return [[], endIndex === -1 ? skipToken(input, startIndex) : endIndex + 1];
+  }
+  const count = Number(ratio[1]);
+  const span = ratio[2] ? Number(ratio[2]) : defaultTupletSpan(count);
+  if (count < 2 || span < 1) {
+    report(
+      context,
+      startIndex,
+      ratio[0].length,
+      "invalid-tuplet",
+      `连音比例无效: ${count}:${span}`,
+    );
+  }
+  const scale = count < 2 || span < 1 ? 1 : span / count;
+
+  const events: ScoreEvent[] = [];
+  const scaled = () =>
+    events.map((event) => ({
+      ...event,
+      durationBeats: event.durationBeats * scale,
+    }));
 
-    if (ch === "0") {
+  let i = startIndex + ratio[0].length;
+  while (i < input.length) {
+    const ch = input[i];
+    if (/\s/.test(ch)) {
       i += 1;
-      const [duration, nextIndex] = parseDuration(rest, i);
-      i = nextIndex;
-      events.push({ type: "rest", durationBeats: duration, notes: [] });
-      totalBeats += duration;
       continue;
     }
-
-    if (/[1-7]/.test(ch)) {
-      const degree = Number(ch);
-      i += 1;
-      let octaveShift = 0;
-      let accidental = 0;
-      while (i < rest.length) {
-        const mod = rest[i];
-        if (mod === "+") {
-          octaveShift += 1;
-        } else if (mod === "-") {
-          octaveShift -= 1;
-        } else if (mod === "#") {
-          accidental += 1;
-        } else if (mod === "b") {
-          accidental -= 1;
-        } else if (mod === "_") {
-          accidental += 1;
-        } else {
-          break;
-        }
-        i += 1;
+    if (ch === "}") {
+      if (events.length === 0) {
+        report(
+          context,
+          startIndex,
+          i + 1 - startIndex,
+          "empty-tuplet",
+          "连音内必须包含至少一个音符",
+        );
       }
-      const [duration, nextIndex] = parseDuration(rest, i);
+      return [scaled(), i + 1];
+    }
+    const parsed = parseEventAt(context, i, header);
+    if (!parsed) {
+      const nextIndex = skipToken(input, i);
+      report(
+        context,
+        i,
+        nextIndex - i,
+        "unknown-symbol",
+        `连音内无法识别的符号: ${input.slice(i, nextIndex)}`,
+      );
       i = nextIndex;
-      events.push({
-        type: "note",
-        durationBeats: duration,
-        notes: [{ degree, octaveShift, accidental }],
-      });
-      totalBeats += duration;
       continue;
     }
-
-    throw new Error(`无法识别的符号: ${ch}`);
+    events.push(...parsed[0]);
+    i = parsed[1];
   }
 
-  return { header, events, totalBeats };
+  report(context, startIndex, 1, "unclosed-tuplet", "连音缺少右括号 }");
+  return [scaled(), i];
 }
 
-function degreeToMidi(
-  degree: number,
-  octaveShift: number,
-  accidental: number,
+function chordSymbolToNotes(
+  rootPitchClass: number,
+  intervals: number[],
+  bassPitchClass: number | null,
   header: ScoreHeader,
 ) {
-  const keyOffset = KEY_OFFSETS[header.key] ?? 0;
-  const baseC = 12 * (header.octave + 1);
-  const tonic = baseC + keyOffset;
-  const scaleOffset = MAJOR_SCALE[degree - 1] ?? 0;
-  const midi =
-    tonic + scaleOffset + accidental + octaveShift * 12;
-
-  return clamp(Math.round(midi), 0, 127);
+  const rootMidi = 12 * (header.octave + 1) + rootPitchClass;
+  const pitches = intervals.map((interval) => rootMidi + interval);
+  if (
+    bassPitchClass !== null &&
+    (bassPitchClass - rootPitchClass) % 12 !== 0
+  ) {
+    pitches.unshift(12 * header.octave + bassPitchClass);
+  }
+  return pitches.map((pitch) => midiNoteToSpec(clamp(pitch, 0, 127), header));
 }
 
-function writeVarLen(value: number) {
-  let buffer = value & 0x7f;
-  const bytes: number[] = [];
-  while ((value >>= 7)) {
-    buffer <<= 8;
-    buffer |= (value & 0x7f) | 0x80;
-  }
-  while (true) {
-    bytes.push(buffer & 0xff);
-    if (buffer & 0x80) {
-      buffer >>= 8;
-    } else {
-      break;
-    }
-  }
-  return bytes;
+function letterOffset(step: string, accidental: string) {
+  const shift = accidental === "#" ? 1 : accidental === "b" ? -1 : 0;
+  return STEP_OFFSETS[step] + shift;
 }
 
-function createMidiFile(
+function parseChordSymbolAt(
+  context: ParseContext,
+  startIndex: number,
   header: ScoreHeader,
-  events: ScoreEvent[],
-  ticksPerBeat = 480,
+): [ScoreEvent[], number] | null {
+  const input = context.input;
+  const rest = input.slice(startIndex);
+  const letter = rest.match(
+    /^([A-G])([#b]?)([A-Za-z0-9#+\-]*)(?:\/([A-Z])([#b]?))?/,
+  );
+  const roman = rest.match(
+    /^([#b]?)(VII|VI|V|IV|III|II|I|vii|vi|v|iv|iii|ii|i)(o|\+|maj7|7|9)?(?![A-Za-z])/,
+  );
+
+  let rootPitchClass: number;
+  let quality: string;
+  let bassPitchClass: number | null = null;
+  let length: number;
+
+  if (letter) {
+    rootPitchClass = letterOffset(letter[1], letter[2]);
+    quality = letter[3];
+    length = letter[0].length;
+    if (letter[4] && STEP_OFFSETS[letter[4]] === undefined) {
+      report(
+        context,
+        startIndex,
+        length,
+        "invalid-chord-bass",
+        `无法识别的和弦低音: ${letter[0]}`,
+      );
+      return [[], startIndex + length];
+    }
+    if (letter[4]) {
+      bassPitchClass = letterOffset(letter[4], letter[5]);
+    }
+  } else if (roman) {
+    const degree = ROMAN_DEGREES.indexOf(roman[2].toLowerCase()) + 1;
+    const accidental = roman[1] === "#" ? 1 : roman[1] === "b" ? -1 : 0;
+    const tonic = KEY_OFFSETS[header.key] ?? 0;
+    rootPitchClass =
+      (tonic + (scaleFor(header)[degree - 1] ?? 0) + accidental + 12) % 12;
+    const isMinor = roman[2] === roman[2].toLowerCase();
+    const suffix = roman[3] ?? "";
+    if (suffix === "o") {
+      quality = "dim";
+    } else if (suffix === "+") {
+      quality = "aug";
+    } else if (suffix === "7" || suffix === "9") {
+      quality = isMinor ? `m${suffix}` : suffix;
+    } else if (suffix === "maj7") {
+      quality = isMinor ? "mmaj7" : "maj7";
+    } else {
+      quality = isMinor ? "m" : "";
+    }
+    length = roman[0].length;
+  } else {
+    return null;
+  }
+
+  const intervals = CHORD_QUALITIES[quality];
+  const symbol = input.slice(startIndex, startIndex + length);
+  if (!intervals) {
+    report(
+      context,
+      startIndex,
+      length,
+      "unknown-chord-quality",
+      `无法识别的和弦类型: ${symbol}`,
+    );
+    return [[], startIndex + length];
+  }
+
+  const event: ScoreEvent = {
+    type: "chord",
+    durationBeats: 1,
+    notes: chordSymbolToNotes(
+      rootPitchClass,
+      intervals,
+      bassPitchClass,
+      header,
+    ),
+    symbol,
+  };
+  const nextIndex = parseMarkedDuration(input, startIndex + length, event);
+  return [[event], nextIndex];
+}
+
+function parseDrumStepsAt(
+  context: ParseContext,
+  startIndex: number,
+): [ScoreEvent[], number] {
+  const input = context.input;
+  const events: ScoreEvent[] = [];
+  let i = startIndex;
+
+  while (i < input.length) {
+    const ch = input[i];
+    if (ch === ".") {
+      const last = events[events.length - 1];
+      if (last) {
+        last.durationBeats += DRUM_STEP_BEATS;
+      } else {
+        events.push({ type: "rest", durationBeats: DRUM_STEP_BEATS, notes: [] });
+      }
+      i += 1;
+      continue;
+    }
+
+    let codes: string;
+    let end: number;
+    if (ch === "(") {
+      const closing = findClosing(input, i, ")");
+      if (closing === -1) {
+        report(context, i, 1, "unclosed-chord", "鼓组合缺少右括号 )");
+        return [events, skipToken(input, i)];
+      }
+      codes = input.slice(i + 1, closing);
+      end = closing + 1;
+    } else if (/[A-Z]/.test(ch)) {
+      codes = ch;
+      end = i + 1;
+    } else {
+      break;
+    }
+
+    const drums: number[] = [];
+    for (const [offset, code] of Array.from(codes).entries()) {
+      const note = DRUM_CODES[code];
+      if (note === undefined) {
+        report(
+          context,
+          ch === "(" ? i + 1 + offset : i,
+          1,
+          "unknown-drum",
+          `无法识别的鼓件代码: ${code}`,
+        );
+        continue;
+      }
+      drums.push(note);
+    }
+    const event: ScoreEvent = {
+      type: drums.length > 1 ? "chord" : "note",
+      durationBeats: DRUM_STEP_BEATS,
+      notes: [],
+      drums,
+    };
+    i = parseArticulations(input, end, event);
+    if (drums.length > 0) {
+      events.push(event);
+    } else {
+      events.push({ type: "rest", durationBeats: DRUM_STEP_BEATS, notes: [] });
+    }
+  }
+
+  return [events, i];
+}
+
+function parseSoundAt(
+  context: ParseContext,
+  startIndex: number,
+  header: ScoreHeader,
+): [ScoreEvent[], number] | null {
+  const input = context.input;
+  const ch = input[startIndex];
+
+  if (ch === "{") {
+    const grace = input.slice(startIndex).match(/^\{[^{}:\n]*\}/);
+    if (!grace) {
+      return parseTupletAt(context, startIndex, header);
+    }
+    const graceEnd = startIndex + grace[0].length;
+    const graces = parseNoteSpecs(
+      context,
+      startIndex + 1,
+      graceEnd - 1,
+      header,
+    );
+    const parsed = parseSoundAt(context, graceEnd, header);
+    const target = parsed?.[0][0];
+    if (!parsed || !target || target.type === "rest") {
+      report(
+        context,
+        startIndex,
+        grace[0].length,
+        "dangling-grace",
+        "倚音后必须紧跟主音符，例如 {5}3",
+      );
+      return parsed ?? [[], graceEnd];
+    }
+    if (graces.length > 0) {
+      target.graces = graces;
+    }
+    return parsed;
+  }
+
+  if (header.kind === "drums" && /[A-Z.(]/.test(ch)) {
+    return parseDrumStepsAt(context, startIndex);
+  }
+
+  if (header.kind === "chords" && /[A-GIVivb#]/.test(ch)) {
+    const parsed = parseChordSymbolAt(context, startIndex, header);
+    if (parsed) {
+      return parsed;
+    }
+  }
+
+  if (ch === "(") {
+    const endIndex = findClosing(input, startIndex, ")");
+    if (endIndex === -1) {
+      report(context, startIndex, 1, "unclosed-chord", "和弦缺少右括号 )");
+      return [[], skipToken(input, startIndex)];
+    }
+    const notes = parseNoteSpecs(context, startIndex + 1, endIndex, header);
+    const event: ScoreEvent = { type: "chord", durationBeats: 1, notes };
+    const nextIndex = parseMarkedDuration(input, endIndex + 1, event);
+    if (notes.length === 0) {
+      report(
+        context,
+        startIndex,
+        endIndex + 1 - startIndex,
+        "empty-chord",
+        "和弦内必须包含至少一个音符",
+      );
+      return [[], nextIndex];
+    }
+    return [[event], nextIndex];
+  }
+
+  if (ch === "0") {
+    const [duration, nextIndex] = parseDuration(input, startIndex + 1);
+    return [[{ type: "rest", durationBeats: duration, notes: [] }], nextIndex];
+  }
+
+  const absolute = isAbsolute(header) && /[A-Ga-g]/.test(ch);
+  if (absolute || /[1-7]/.test(ch)) {
+    const [note, noteEnd] = absolute
+      ? parseAbsoluteNoteAt(context, startIndex, header)
+      : parseNoteAt(input, startIndex);
+    const event: ScoreEvent = { type: "note", durationBeats: 1, notes: [note] };
+    let ornamentEnd = noteEnd;
+    for (const [suffix, ornament] of ORNAMENT_SUFFIXES) {
+      if (input.startsWith(suffix, noteEnd)) {
+        event.ornament = ornament;
+        ornamentEnd = noteEnd + suffix.length;
+        break;
+      }
+    }
+    const nextIndex = parseMarkedDuration(input, ornamentEnd, event);
+    return [[event], nextIndex];
+  }
+
+  return null;
+}
+
+function parseEventAt(
+  context: ParseContext,
+  startIndex: number,
+  header: ScoreHeader,
+): [ScoreEvent[], number] | null {
+  const parsed = parseSoundAt(context, startIndex, header);
+  const input = context.input;
+  if (!parsed || input[parsed[1]] !== '"') {
+    return parsed;
+  }
+  const [events, lyricStart] = parsed;
+  const lyricEnd = findClosing(input, lyricStart, '"');
+  if (lyricEnd === -1) {
+    report(context, lyricStart, 1, "unclosed-lyric", '歌词缺少右引号 "');
+    return [events, skipToken(input, lyricStart)];
+  }
+  const target = events
+    .filter((event) => event.type === "note" || event.type === "chord")
+    .pop();
+  if (target) {
+    target.lyric = input.slice(lyricStart + 1, lyricEnd);
+  } else {
+    report(
+      context,
+      lyricStart,
+      lyricEnd + 1 - lyricStart,
+      "lyric-on-rest",
+      "歌词只能附加在音符上",
+      "warning",
+    );
+  }
+  return [events, lyricEnd + 1];
+}
+
+export function splitSyllables(text: string) {
+  return (
+    text.match(
+      /_|[\u3400-\u9fff\uf900-\ufaff][^\s\u3400-\u9fff\uf900-\ufaff\w]*|[^\s\u3400-\u9fff\uf900-\ufaff_-]+-?/g,
+    ) ?? []
+  );
+}
+
+const LYRICS_LINE = /^(?:lyrics|歌词)\s*[:：]/i;
+
+const VOICE_MARKER = /^\/\/\s*(track|voice)\b/i;
+
+function diffHeader(previous: ScoreHeader, next: ScoreHeader) {
+  const changes: Partial<ScoreHeader> = {};
+  if (next.key !== previous.key) changes.key = next.key;
+  if (next.mode !== previous.mode) changes.mode = next.mode;
+  if (next.bpm !== previous.bpm) changes.bpm = next.bpm;
+  if (next.volume !== previous.volume) changes.volume = next.volume;
+  if (next.octave !== previous.octave) changes.octave = next.octave;
+  if (next.program !== previous.program) changes.program = next.program;
+  if (next.time !== previous.time) changes.time = next.time;
+  if (next.pattern !== previous.pattern) changes.pattern = next.pattern;
+  if (next.bendRange !== previous.bendRange) changes.bendRange = next.bendRange;
+  if (next.notation !== previous.notation) changes.notation = next.notation;
+  return changes;
+}
+
+function stepDynamic(velocity: number, direction: number) {
+  const levels = Object.values(DYNAMIC_VELOCITIES);
+  if (direction > 0) {
+    return levels.find((level) => level > velocity) ?? 127;
+  }
+  return [...levels].reverse().find((level) => level < velocity) ?? levels[0];
+}
+
+export function nearestDynamic(velocity: number) {
+  let best = "mf";
+  let bestDistance = Number.POSITIVE_INFINITY;
+  for (const [mark, level] of Object.entries(DYNAMIC_VELOCITIES)) {
+    const distance = Math.abs(level - velocity);
+    if (distance < bestDistance) {
+      best = mark;
+      bestDistance = distance;
+    }
+  }
+  return best;
+}
+
+function createVoice(header: ScoreHeader): ScoreVoice {
+  return { header: { ...header }, events: [], totalBeats: 0 };
+}
+
+function cloneEvent(event: ScoreEvent): ScoreEvent {
+  return { ...event, notes: event.notes.map((note) => ({ ...note })) };
+}
+
+export function expandStructure(
+  events: ScoreEvent[],
+  markers: StructureMarker[],
+): ScoreEvent[] | null {
+  if (markers.length === 0) {
+    return events;
+  }
+
+  type Item = { event: ScoreEvent } | { marker: StructureMarker };
+  const items: Item[] = [];
+  let markerIndex = 0;
+  for (let index = 0; index <= events.length; index += 1) {
+    while (markers[markerIndex]?.eventIndex === index) {
+      items.push({ marker: markers[markerIndex] });
+      markerIndex += 1;
+    }
+    if (index < events.length) {
+      items.push({ event: events[index] });
+    }
+  }
+
+  const markerAt = (index: number) => {
+    const item = items[index];
+    return item && "marker" in item ? item.marker : null;
+  };
+  const findMarker = (kind: StructureMarker["kind"], from = 0) => {
+    for (let index = from; index < items.length; index += 1) {
+      if (markerAt(index)?.kind === kind) {
+        return index;
+      }
+    }
+    return -1;
+  };
+  const repeatPasses = (from: number) => {
+    let passes = 2;
+    for (let index = from; index < items.length; index += 1) {
+      const marker = markerAt(index);
+      if (marker?.kind === "repeat-start" && index > from) {
+        break;
+      }
+      if (marker?.kind === "volta") {
+        passes = Math.max(passes, ...(marker.endings ?? []));
+      }
+    }
+    return passes;
+  };
+  const nextVoltaOrExit = (from: number) => {
+    for (let index = from + 1; index < items.length; index += 1) {
+      const kind = markerAt(index)?.kind;
+      if (kind === "volta" || kind === "repeat-start") {
+        return index;
+      }
+      if (kind === "repeat-end") {
+        return index + 1;
+      }
+    }
+    return items.length;
+  };
+  const isLastVolta = (from: number) => {
+    for (let index = from + 1; index < items.length; index += 1) {
+      const kind = markerAt(index)?.kind;
+      if (kind === "repeat-start") {
+        return true;
+      }
+      if (kind === "volta") {
+        return false;
+      }
+    }
+    return true;
+  };
+
+  const segno = findMarker("segno");
+  const coda = findMarker("coda");
+  const output: ScoreEvent[] = [];
+  const taken = new Map<number, number>();
+  let position = 0;
+  let repeatStart = 0;
+  let pass = 1;
+  let jumped = false;
+
+  while (position < items.length) {
+    if (output.length > MAX_EXPANDED_EVENTS) {
+      return null;
+    }
+    const item = items[position];
+    if ("event" in item) {
+      output.push(cloneEvent(item.event));
+      position += 1;
+      continue;
+    }
+
+    const marker = item.marker;
+    if (marker.kind === "repeat-start") {
+      repeatStart = position + 1;
+      pass = 1;
+      position += 1;
+      continue;
+    }
+    if (marker.kind === "repeat-end") {
+      const times = taken.get(position) ?? 1;
+      if (!jumped && times < repeatPasses(repeatStart)) {
+        taken.set(position, times + 1);
+        pass += 1;
+        position = repeatStart;
+        continue;
+      }
+      position += 1;
+      repeatStart = position;
+      continue;
+    }
+    if (marker.kind === "volta") {
+      const playing = jumped
+        ? isLastVolta(position)
+        : (marker.endings ?? []).includes(pass);
+      position = playing ? position + 1 : nextVoltaOrExit(position);
+      continue;
+    }
+    if (marker.kind === "fine" && jumped) {
+      break;
+    }
+    if (marker.kind === "to-coda" && jumped && coda !== -1) {
+      position = coda + 1;
+      continue;
+    }
+    if (marker.kind === "da-capo" && !jumped) {
+      jumped = true;
+      position = 0;
+      continue;
+    }
+    if (marker.kind === "dal-segno" && !jumped && segno !== -1) {
+      jumped = true;
+      position = segno + 1;
+      continue;
+    }
+    position += 1;
+  }
+
+  return output;
+}
+
+function collectPhrases(context: ParseContext) {
+  const phrases = new Map<
+    string,
+    { nameIndex: number; start: number; end: number }
+  >();
+  const pattern = /^[ \t]*(@([\w\u4e00-\u9fff]+)[ \t]*=)[^\n]*/gm;
+  for (const match of context.input.matchAll(pattern)) {
+    const lineStart = match.index ?? 0;
+    const nameIndex = lineStart + match[0].indexOf("@");
+    const name = match[2];
+    if (phrases.has(name)) {
+      report(
+        context,
+        nameIndex,
+        name.length + 1,
+        "duplicate-phrase",
+        `乐句重复定义: @${name}`,
+      );
+      continue;
+    }
+    phrases.set(name, {
+      nameIndex,
+      start: nameIndex + match[1].length,
+      end: lineStart + match[0].length,
+    });
+  }
+  return phrases;
+}
+
+function formatBeats(beats: number) {
+  return String(Math.round(beats * 1000) / 1000);
+}
+
+function formatDiagnostic(diagnostic: ScoreDiagnostic) {
+  return `第 ${diagnostic.line} 行第 ${diagnostic.column} 列: ${diagnostic.message}`;
+}
+
+export class MidiParseError extends Error {
+  code: MidiErrorCode;
+
+  constructor(code: MidiErrorCode, message: string) {
+    super(message);
+    this.name = "MidiParseError";
+    this.code = code;
+  }
+}
+
+export class ScoreParseError extends Error {
+  diagnostics: ScoreDiagnostic[];
+
+  constructor(diagnostics: ScoreDiagnostic[]) {
+    super(
+      diagnostics
+        .filter((diagnostic) => diagnostic.severity === "error")
+        .map(formatDiagnostic)
+        .join("\n"),
+    );
+    this.name = "ScoreParseError";
+    this.diagnostics = diagnostics;
+  }
+}
+
+export function parseScore(input: string): ParsedScore {
+  const context: ParseContext = { input, diagnostics: [] };
+  const voices: ScoreVoice[] = [];
+  let voice = createVoice(DEFAULT_HEADER);
+  let currentHeader = { ...voice.header };
+  let hasHeader = false;
+  let barStartBeat = 0;
+  let barNumber = 1;
+  let barLength = barLengthBeats(currentHeader.time);
+  let dynamicVelocity: number | undefined;
+  let ramp: {
+    eventIndex: number;
+    startBeat: number;
+    startVelocity: number;
+    direction: number;
+  } | null = null;
+  let markers: StructureMarker[] = [];
+  let lyricCursor = 0;
+  let pendingLyrics: string[] = [];
+  let pendingLyricsIndex = 0;
+  const phrases = collectPhrases(context);
+  const phraseStack: string[] = [];
+
+  const tiedIn = (index: number) => {
+    for (let i = index - 1; i >= 0; i -= 1) {
+      if (voice.events[i].type !== "change") {
+        return voice.events[i].tie === true;
+      }
+    }
+    return false;
+  };
+
+  const pushEvent = (event: ScoreEvent) => {
+    if (event.type !== "rest" && event.type !== "change" && dynamicVelocity !== undefined) {
+      event.velocity = dynamicVelocity;
+    }
+    const tied = tiedIn(voice.events.length);
+    voice.events.push(event);
+    voice.totalBeats += event.durationBeats;
+    if ((event.type === "note" || event.type === "chord") && !tied) {
+      const syllable =
+        event.lyric === undefined ? pendingLyrics.shift() : undefined;
+      if (syllable !== undefined && syllable !== "_") {
+        event.lyric = syllable;
+      }
+      if (event.lyric !== undefined || syllable !== undefined) {
+        lyricCursor = voice.events.length;
+      }
+    }
+  };
+
+  const addLyrics = (index: number, text: string) => {
+    const syllables = splitSyllables(text);
+    for (const event of voice.events.slice(lyricCursor)) {
+      if (syllables.length === 0) {
+        break;
+      }
+      const tied = tiedIn(lyricCursor);
+      lyricCursor += 1;
+      if ((event.type !== "note" && event.type !== "chord") || tied) {
+        continue;
+      }
+      const syllable = syllables.shift();
+      if (syllable !== "_") {
+        event.lyric = syllable;
+      }
+    }
+    pendingLyrics.push(...syllables);
+    pendingLyricsIndex = index;
+  };
+
+  const finishRamp = (targetVelocity?: number) => {
+    if (!ramp) {
+      return;
+    }
+    const target = targetVelocity ?? stepDynamic(ramp.startVelocity, ramp.direction);
+    const span = voice.totalBeats - ramp.startBeat;
+    let beat = ramp.startBeat;
+    for (const event of voice.events.slice(ramp.eventIndex)) {
+      if (event.velocity !== undefined && span > 0) {
+        const progress = (beat - ramp.startBeat) / span;
+        event.velocity = Math.round(
+          ramp.startVelocity + (target - ramp.startVelocity) * progress,
+        );
+      }
+      beat += event.durationBeats;
+    }
+    dynamicVelocity = target;
+    ramp = null;
+  };
+
+  const addMarker = (
+    kind: StructureMarker["kind"],
+    endings?: number[],
+  ) => {
+    markers.push({ kind, eventIndex: voice.events.length, endings });
+  };
+
+  const finishVoice = () => {
+    finishRamp();
+    if (pendingLyrics.length > 0) {
+      report(
+        context,
+        pendingLyricsIndex,
+        1,
+        "lyrics-overflow",
+        `歌词音节多于音符: 多出 ${pendingLyrics.length} 个`,
+        "warning",
+      );
+    }
+    pendingLyrics = [];
+    lyricCursor = 0;
+    const expanded = expandStructure(voice.events, markers);
+    if (expanded === null) {
+      report(
+        context,
+        0,
+        1,
+        "expansion-overflow",
+        `反复展开后超过 ${MAX_EXPANDED_EVENTS} 个事件`,
+      );
+    } else if (expanded !== voice.events) {
+      voice.events = expanded;
+      voice.totalBeats = expanded.reduce(
+        (sum, event) => sum + event.durationBeats,
+        0,
+      );
+    }
+    markers = [];
+  };
+
+  const resetBars = () => {
+    barStartBeat = 0;
+    barNumber = 1;
+    barLength = barLengthBeats(currentHeader.time);
+  };
+
+  const closeBar = (index: number, length: number) => {
+    const beats = voice.totalBeats - barStartBeat;
+    if (beats === 0 && barNumber > 1) {
+      return;
+    }
+    const isPickup = barNumber === 1 && beats < barLength;
+    if (Math.abs(beats - barLength) > 0.0001 && !isPickup) {
+      const overfull = beats > barLength;
+      report(
+        context,
+        index,
+        length,
+        overfull ? "bar-overfull" : "bar-short",
+        `第 ${barNumber} 小节${overfull ? "时值超出" : "时值不足"}: ${formatBeats(beats)} 拍，应为 ${formatBeats(barLength)} 拍`,
+        "warning",
+      );
+    }
+    barStartBeat = voice.totalBeats;
+    barNumber += 1;
+    barLength = barLengthBeats(currentHeader.time);
+  };
+
+  const parseRange = (start: number, end: number) => {
+    let i = start;
+    while (i < end) {
+      const ch = input[i];
+      if (/\s/.test(ch)) {
+        i += 1;
+        continue;
+      }
+
+      const lyricsLine = input.slice(i, end).match(LYRICS_LINE);
+      if (lyricsLine) {
+        const lineEnd = input.indexOf("\n", i);
+        const endIndex = lineEnd === -1 || lineEnd > end ? end : lineEnd;
+        addLyrics(i, input.slice(i + lyricsLine[0].length, endIndex));
+        i = endIndex;
+        continue;
+      }
+
+      if (input.startsWith("//", i)) {
+        const lineEnd = input.indexOf("\n", i);
+        const endIndex = lineEnd === -1 || lineEnd > end ? end : lineEnd;
+        const comment = input.slice(i, endIndex);
+        if (
+          VOICE_MARKER.test(comment) &&
+          (hasHeader || voice.events.length > 0)
+        ) {
+          finishVoice();
+          voices.push(voice);
+          voice = createVoice({
+            ...voice.header,
+            kind: DEFAULT_HEADER.kind,
+            pattern: DEFAULT_HEADER.pattern,
+          });
+          currentHeader = { ...voice.header };
+          hasHeader = false;
+          dynamicVelocity = undefined;
+          resetBars();
+        }
+        i = endIndex;
+        continue;
+      }
+
+      if (ch === "[") {
+        const endIndex = findClosing(input, i, "]");
+        if (endIndex === -1) {
+          const lineEnd = input.indexOf("\n", i);
+          report(context, i, 1, "unclosed-header", "头部缺少右括号 ]");
+          i = lineEnd === -1 ? input.length : lineEnd;
+          continue;
+        }
+        const headerStart = i + 1;
+        const rawHeaderText = input.slice(headerStart, endIndex);
+        const headerText = rawHeaderText.trim();
+        const volta = headerText.match(/^(\d+(?:\s*,\s*\d+)*)\.?$/);
+        if (volta) {
+          addMarker(
+            "volta",
+            volta[1].split(",").map((item) => Number(item.trim())),
+          );
+          i = endIndex + 1;
+          continue;
+        }
+        i = endIndex + 1;
+        if (!hasHeader && voice.events.length === 0) {
+          voice.header = parseHeader(
+            rawHeaderText,
+            voice.header,
+            context,
+            headerStart,
+          );
+          currentHeader = { ...voice.header };
+          hasHeader = true;
+          resetBars();
+          continue;
+        }
+        const nextHeader = parseHeader(
+          rawHeaderText,
+          currentHeader,
+          context,
+          headerStart,
+        );
+        const changes = diffHeader(currentHeader, nextHeader);
+        if (Object.keys(changes).length > 0) {
+          pushEvent({ type: "change", durationBeats: 0, notes: [], changes });
+        }
+        currentHeader = nextHeader;
+        if (voice.totalBeats === barStartBeat) {
+          barLength = barLengthBeats(currentHeader.time);
+        }
+        continue;
+      }
+
+      if (ch === "|") {
+        const length = /[|\]:]/.test(input[i + 1] ?? "") ? 2 : 1;
+        closeBar(i, length);
+        if (input[i + 1] === ":") {
+          addMarker("repeat-start");
+        }
+        i += length;
+        continue;
+      }
+
+      if (input.startsWith(":|", i)) {
+        const length = input[i + 2] === ":" ? 3 : 2;
+        closeBar(i, length);
+        addMarker("repeat-end");
+        if (length === 3) {
+          addMarker("repeat-start");
+        }
+        i += length;
+        continue;
+      }
+
+      const jump = input
+        .slice(i)
+        .match(/^(D\.C\.|D\.S\.|Segno|Fine|ToCoda|Coda)(?:\s*al\s*(?:Fine|Coda))?(?![A-Za-z])/);
+      if (jump) {
+        addMarker(STRUCTURE_WORDS[jump[1]]);
+        i += jump[0].length;
+        continue;
+      }
+
+      if (ch === "@") {
+        const reference = input.slice(i).match(/^@([\w\u4e00-\u9fff]+)/);
+        const definition = reference && phrases.get(reference[1]);
+        if (!reference) {
+          report(context, i, 1, "invalid-phrase", "乐句名称无效，应写作 @名称");
+          i += 1;
+          continue;
+        }
+        if (definition && definition.nameIndex === i) {
+          i = definition.end;
+          continue;
+        }
+        const name = reference[1];
+        if (!definition) {
+          report(
+            context,
+            i,
+            reference[0].length,
+            "undefined-phrase",
+            `未定义的乐句: @${name}`,
+          );
+        } else if (phraseStack.includes(name)) {
+          report(
+            context,
+            i,
+            reference[0].length,
+            "recursive-phrase",
+            `乐句不能引用自身: @${name}`,
+          );
+        } else {
+          phraseStack.push(name);
+          parseRange(definition.start, definition.end);
+          phraseStack.pop();
+        }
+        i += reference[0].length;
+        continue;
+      }
+
+      const absolute = isAbsolute(currentHeader);
+      const wordMatch = input
+        .slice(i)
+        .match(
+          absolute
+            ? /^!([a-z]+)!|^[a-z]+(?![A-Za-z\d',#])/
+            : /^!([a-z]+)!|^[a-z]+(?![A-Za-z])/,
+        );
+      const wordText = wordMatch?.[0] ?? "";
+      const word = wordMatch?.[1] ?? wordText;
+      const isPitch =
+        absolute &&
+        wordMatch?.[1] === undefined &&
+        wordText.match(ABSOLUTE_PITCH)?.[0] === wordText;
+      if (word && !isPitch && DYNAMIC_VELOCITIES[word] !== undefined) {
+        finishRamp(DYNAMIC_VELOCITIES[word]);
+        dynamicVelocity = DYNAMIC_VELOCITIES[word];
+        i += wordText.length;
+        continue;
+      }
+      if (word === "cresc" || word === "dim" || word === "decresc") {
+        finishRamp();
+        const startVelocity =
+          dynamicVelocity ?? clamp(Math.round(currentHeader.volume * 127), 1, 127);
+        ramp = {
+          eventIndex: voice.events.length,
+          startBeat: voice.totalBeats,
+          startVelocity,
+          direction: word === "cresc" ? 1 : -1,
+        };
+        dynamicVelocity = startVelocity;
+        i += wordText.length;
+        continue;
+      }
+
+      const parsed = parseEventAt(context, i, currentHeader);
+      if (parsed) {
+        const [events, nextIndex] = parsed;
+        events.forEach(pushEvent);
+        i = nextIndex;
+        continue;
+      }
+
+      const nextIndex = skipToken(input, i);
+      report(
+        context,
+        i,
+        nextIndex - i,
+        "unknown-symbol",
+        `无法识别的符号: ${input.slice(i, nextIndex)}`,
+      );
+      i = nextIndex;
+    }
+  };
+
+  parseRange(0, input.length);
+
+  finishVoice();
+  if (voices.length === 0 || hasHeader || voice.events.length > 0) {
+    voices.push(voice);
+  }
+
+  if (context.diagnostics.some((diagnostic) => diagnostic.severity === "error")) {
+    throw new ScoreParseError(context.diagnostics);
+  }
+
+  return {
+    header: voices[0].header,
+    voices,
+    totalBeats: Math.max(0, ...voices.map((item) => item.totalBeats)),
+    diagnostics: context.diagnostics,
+  };
+}
+
+export function degreeToMidi(
+  degree: number,
+  octaveShift: number,
+  accidental: number,
+  header: ScoreHeader,
+) {
+  const keyOffset = KEY_OFFSETS[header.key] ?? 0;
+  const baseC = 12 * (header.octave + 1);
+  const tonic = baseC + keyOffset;
+  const scaleOffset = scaleFor(header)[degree - 1] ?? 0;
+  const midi =
+    tonic + scaleOffset + accidental + octaveShift * 12;
+
+  return clamp(Math.round(midi), 0, 127);
+}
+
+function writeVarLen(value: number) {
+  let buffer = value & 0x7f;
+  const bytes: number[] = [];
+  while ((value >>= 7)) {
+    buffer <<= 8;
+    buffer |= (value & 0x7f) | 0x80;
+  }
+  while (true) {
+    bytes.push(buffer & 0xff);
+    if (buffer & 0x80) {
+      buffer >>= 8;
+    } else {
+      break;
+    }
+  }
+  return bytes;
+}
+
+export function keySignatureSharps(header: ScoreHeader) {
+  const tonic = KEY_OFFSETS[header.key] ?? 0;
+  const majorTonic = (tonic - (MODE_RELATIVE_MAJOR[header.mode] ?? 0) + 12) % 12;
+  const sharps = (majorTonic * 7) % 12;
+  if (sharps > 6 || (sharps === 6 && header.key.includes("b"))) {
+    return sharps - 12;
+  }
+  return sharps;
+}
+
+function keySignatureBytes(header: ScoreHeader) {
+  const sharps = keySignatureSharps(header);
+  const isMinor = ["aeolian", "harmonic", "melodic"].includes(header.mode);
+  return [0xff, 0x59, 0x02, sharps & 0xff, isMinor ? 1 : 0];
+}
+
+export function keySignatureToHeader(sharps: number, minor: boolean) {
+  const majorTonic = (((sharps * 7) % 12) + 12) % 12;
+  const tonic = minor ? (majorTonic + 9) % 12 : majorTonic;
+  const names = sharps < 0 ? FLAT_KEY_NAMES : SHARP_KEY_NAMES;
+  return { key: names[tonic], mode: minor ? "aeolian" : "major" };
+}
+
+function voiceChannel(index: number) {
+  const channel = index < 9 ? index : index + 1;
+  if (channel > 15) {
+    throw new Error("声部数量超出 MIDI 通道上限");
+  }
+  return channel;
+}
+
+function encodeTrack(midiEvents: MidiEvent[]) {
+  midiEvents.sort((a, b) => {
+    if (a.tick !== b.tick) {
+      return a.tick - b.tick;
+    }
+    return a.order - b.order;
+  });
+
+  const trackData: number[] = [];
+  let lastTick = 0;
+  for (const event of midiEvents) {
+    const delta = event.tick - lastTick;
+    trackData.push(...writeVarLen(delta), ...event.bytes);
+    lastTick = event.tick;
+  }
+  trackData.push(0x00, 0xff, 0x2f, 0x00);
+
+  const trackChunkHeader = Buffer.alloc(8);
+  trackChunkHeader.write("MTrk", 0);
+  trackChunkHeader.writeUInt32BE(trackData.length, 4);
+
+  return Buffer.concat([trackChunkHeader, Buffer.from(trackData)]);
+}
+
+function patternOnsets(
+  pattern: string,
+  noteCount: number,
+  durationTicks: number,
+  ticksPerBeat: number,
+) {
+  const step = Math.round(ticksPerBeat / 2);
+  if (pattern === "strum") {
+    const stagger = Math.round(ticksPerBeat / 24);
+    return Array.from({ length: noteCount }, (_, index) => ({
+      index,
+      offset: Math.min(index * stagger, durationTicks - 1),
+      length: durationTicks - Math.min(index * stagger, durationTicks - 1),
+    }));
+  }
+  if (
+    (pattern === "alberti" || pattern === "broken") &&
+    noteCount > 1 &&
+    durationTicks >= step * 2
+  ) {
+    const last = noteCount - 1;
+    const order =
+      pattern === "alberti"
+        ? [0, last, Math.max(1, Math.floor(last / 2)), last]
+        : Array.from({ length: noteCount }, (_, index) => index);
+    const onsets: { index: number; offset: number; length: number }[] = [];
+    for (let offset = 0; offset < durationTicks; offset += step) {
+      onsets.push({
+        index: order[onsets.length % order.length],
+        offset,
+        length: Math.min(step, durationTicks - offset),
+      });
+    }
+    return onsets;
+  }
+  return Array.from({ length: noteCount }, (_, index) => ({
+    index,
+    offset: 0,
+    length: durationTicks,
+  }));
+}
+
+function pitchBendBytes(channel: number, semitones: number, range: number) {
+  const value = clamp(Math.round(8192 + (semitones / range) * 8192), 0, 16383);
+  return [0xe0 | channel, value & 0x7f, (value >> 7) & 0x7f];
+}
+
+function bendRangeEvents(channel: number, tick: number, range: number) {
+  return [
+    [101, 0],
+    [100, 0],
+    [6, range],
+    [38, 0],
+    [101, 127],
+    [100, 127],
+  ].map(([controller, value]) => ({
+    tick,
+    order: 2,
+    bytes: [0xb0 | channel, controller, value],
+  }));
+}
+
+function ornamentSegments(
+  event: ScoreEvent,
+  note: number,
+  upper: number,
+  nextNote: number | undefined,
+  header: ScoreHeader,
+  bodyTicks: number,
+  ticksPerBeat: number,
+) {
+  const step = Math.max(1, Math.round(ticksPerBeat / 8));
+  if (event.ornament === "trill" && bodyTicks >= step * 2) {
+    const segments: { note: number; offset: number; length: number }[] = [];
+    for (let offset = 0; offset < bodyTicks; offset += step) {
+      segments.push({
+        note: segments.length % 2 === 0 ? note : upper,
+        offset,
+        length: Math.min(step, bodyTicks - offset),
+      });
+    }
+    return segments;
+  }
+  if (event.ornament === "mordent" && bodyTicks >= step * 3) {
+    return [
+      { note, offset: 0, length: step },
+      { note: upper, offset: step, length: step },
+      { note, offset: step * 2, length: bodyTicks - step * 2 },
+    ];
+  }
+  if (
+    event.ornament === "glide" &&
+    nextNote !== undefined &&
+    Math.abs(nextNote - note) > header.bendRange
+  ) {
+    const half = Math.floor(bodyTicks / 2);
+    const direction = Math.sign(nextNote - note);
+    const passing = Math.abs(nextNote - note) - 1;
+    const length = Math.max(1, Math.floor((bodyTicks - half) / passing));
+    return [
+      { note, offset: 0, length: half },
+      ...Array.from({ length: passing }, (_, index) => ({
+        note: note + direction * (index + 1),
+        offset: half + index * length,
+        length,
+      })),
+    ];
+  }
+  return [{ note, offset: 0, length: bodyTicks }];
+}
+
+function createVoiceEvents(
+  voice: ScoreVoice,
+  channel: number,
+  ticksPerBeat: number,
 ) {
-  const velocity = clamp(Math.round(header.volume * 127), 1, 127);
-  const bpm = header.bpm;
-  const tempo = Math.round(60000000 / bpm);
+  let header = voice.header;
+  let velocity = clamp(Math.round(header.volume * 127), 1, 127);
 
   const midiEvents: MidiEvent[] = [
     {
       tick: 0,
-      order: 0,
-      bytes: [0xff, 0x51, 0x03, (tempo >> 16) & 0xff, (tempo >> 8) & 0xff, tempo & 0xff],
+      order: 1,
+      bytes: [0xc0 | channel, header.program & 0x7f],
     },
     {
       tick: 0,
-      order: 1,
-      bytes: [0xc0, header.program & 0x7f],
+      order: 2,
+      bytes: [0xb0 | channel, 0x07, velocity],
     },
     {
       tick: 0,
-      order: 2,
-      bytes: [0xb0, 0x07, velocity],
+      order: 0,
+      bytes: keySignatureBytes(header),
     },
   ];
+  if (channel !== DRUM_CHANNEL) {
+    midiEvents.push(...bendRangeEvents(channel, 0, header.bendRange));
+  }
+
+  const toMidi = (note: NoteSpec) =>
+    degreeToMidi(note.degree, note.octaveShift, note.accidental, header);
+  const nextSoundingNote = (index: number) => {
+    const next = voice.events
+      .slice(index + 1)
+      .find((item) => item.type !== "change");
+    return next?.type === "note" ? toMidi(next.notes[0]) : undefined;
+  };
+
+  let tick = 0;
+  let heldNotes = new Map<number, MidiEvent>();
+  for (const [eventIndex, event] of voice.events.entries()) {
+    const durationTicks = Math.round(event.durationBeats * ticksPerBeat);
+    if (event.type === "rest") {
+      heldNotes = new Map();
+      tick += durationTicks;
+      continue;
+    }
+
+    if (event.type === "change") {
+      const changes = event.changes ?? {};
+      header = { ...header, ...changes };
+      if (changes.key !== undefined || changes.mode !== undefined) {
+        midiEvents.push({
+          tick,
+          order: 0,
+          bytes: keySignatureBytes(header),
+        });
+      }
+      if (changes.program !== undefined) {
+        midiEvents.push({
+          tick,
+          order: 1,
+          bytes: [0xc0 | channel, header.program & 0x7f],
+        });
+      }
+      if (changes.bendRange !== undefined && channel !== DRUM_CHANNEL) {
+        midiEvents.push(...bendRangeEvents(channel, tick, header.bendRange));
+      }
+      if (changes.volume !== undefined) {
+        velocity = clamp(Math.round(header.volume * 127), 1, 127);
+        midiEvents.push({
+          tick,
+          order: 2,
+          bytes: [0xb0 | channel, 0x07, velocity],
+        });
+      }
+      continue;
+    }
+
+    const midiNotes = event.drums ?? event.notes.map(toMidi);
+    const noteVelocity = clamp(
+      (event.velocity ?? velocity) + (event.accent ? ACCENT_BOOST : 0),
+      1,
+      127,
+    );
+    if (event.lyric !== undefined) {
+      const lyricBytes = Array.from(Buffer.from(event.lyric, "utf8"));
+      midiEvents.push({
+        tick,
+        order: 2,
+        bytes: [0xff, 0x05, ...writeVarLen(lyricBytes.length), ...lyricBytes],
+      });
+    }
+
+    const gateRatio =
+      event.articulation && !event.tie ? GATE_RATIOS[event.articulation] : 1;
+    const tiedNotes = heldNotes;
+    heldNotes = new Map();
+    const pushNote = (note: number, start: number, length: number) => {
+      const held = start === tick ? tiedNotes.get(note) : undefined;
+      const noteOff: MidiEvent = held ?? {
+        tick: start + length,
+        order: 0,
+        bytes: [0x80 | channel, note, 0],
+      };
+      noteOff.tick = start + length;
+      if (!held) {
+        midiEvents.push({
+          tick: start,
+          order: 3,
+          bytes: [0x90 | channel, note, noteVelocity],
+        });
+        midiEvents.push(noteOff);
+      }
+      if (event.tie && start + length === tick + durationTicks) {
+        heldNotes.set(note, noteOff);
+      }
+    };
+
+    const graces = event.graces ?? [];
+    const graceTicks =
+      graces.length > 0
+        ? Math.max(
+            1,
+            Math.min(
+              Math.round(ticksPerBeat / 8),
+              Math.floor(durationTicks / (2 * graces.length)),
+            ),
+          )
+        : 0;
+    for (const [index, grace] of graces.entries()) {
+      pushNote(toMidi(grace), tick + index * graceTicks, graceTicks);
+    }
+    const bodyStart = tick + graces.length * graceTicks;
+    const bodyTicks = durationTicks - graces.length * graceTicks;
+
+    if (event.ornament !== undefined && event.type === "note") {
+      const note = midiNotes[0];
+      const spec = event.notes[0];
+      const upperSpec =
+        spec.degree === 7
+          ? { ...spec, degree: 1, octaveShift: spec.octaveShift + 1 }
+          : { ...spec, degree: spec.degree + 1 };
+      const nextNote = nextSoundingNote(eventIndex);
+      const segments = ornamentSegments(
+        event,
+        note,
+        toMidi(upperSpec),
+        nextNote,
+        header,
+        bodyTicks,
+        ticksPerBeat,
+      );
+      for (const [index, segment] of segments.entries()) {
+        const isLast = index === segments.length - 1;
+        pushNote(
+          segment.note,
+          bodyStart + segment.offset,
+          isLast
+            ? Math.max(1, Math.round(segment.length * gateRatio))
+            : segment.length,
+        );
+      }
+      if (
+        event.ornament === "glide" &&
+        nextNote !== undefined &&
+        segments.length === 1
+      ) {
+        const glideStart = bodyStart + Math.floor(bodyTicks / 2);
+        const glideTicks = bodyStart + bodyTicks - glideStart;
+        const steps = 8;
+        for (let step = 1; step <= steps; step += 1) {
+          midiEvents.push({
+            tick: glideStart + Math.round((glideTicks * step) / (steps + 1)),
+            order: 2,
+            bytes: pitchBendBytes(
+              channel,
+              ((nextNote - note) * step) / steps,
+              header.bendRange,
+            ),
+          });
+        }
+        midiEvents.push({
+          tick: tick + durationTicks,
+          order: 2,
+          bytes: pitchBendBytes(channel, 0, header.bendRange),
+        });
+      }
+      tick += durationTicks;
+      continue;
+    }
+
+    const onsets = patternOnsets(
+      event.symbol !== undefined ? header.pattern : "block",
+      midiNotes.length,
+      bodyTicks,
+      ticksPerBeat,
+    );
+    for (const onset of onsets) {
+      pushNote(
+        midiNotes[onset.index],
+        bodyStart + onset.offset,
+        Math.max(1, Math.round(onset.length * gateRatio)),
+      );
+    }
+    tick += durationTicks;
+  }
+
+  return midiEvents;
+}
+
+function buildTempoMap(score: ParsedScore): TempoPoint[] {
+  const points: TempoPoint[] = [{ beat: 0, bpm: score.header.bpm }];
+  for (const voice of score.voices) {
+    let beat = 0;
+    for (const event of voice.events) {
+      if (event.type === "change" && event.changes?.bpm !== undefined) {
+        points.push({ beat, bpm: event.changes.bpm });
+      }
+      beat += event.durationBeats;
+    }
+  }
+  return points.sort((a, b) => a.beat - b.beat);
+}
+
+function buildTimeSignatureMap(score: ParsedScore): TimeSignaturePoint[] {
+  const points: TimeSignaturePoint[] = [{ beat: 0, time: score.header.time }];
+  for (const voice of score.voices) {
+    let beat = 0;
+    for (const event of voice.events) {
+      if (event.type === "change" && event.changes?.time !== undefined) {
+        points.push({ beat, time: event.changes.time });
+      }
+      beat += event.durationBeats;
+    }
+  }
+  return points.sort((a, b) => a.beat - b.beat);
+}
+
+function timeSignatureBytes(time: string) {
+  const meter = parseTimeSignature(time) ?? { numerator: 4, denominator: 4 };
+  return [
+    0xff,
+    0x58,
+    0x04,
+    meter.numerator,
+    Math.round(Math.log2(meter.denominator)),
+    24,
+    8,
+  ];
+}
+
+function beatsToSeconds(tempoMap: TempoPoint[], beats: number) {
+  let seconds = 0;
+  for (let index = 0; index < tempoMap.length; index += 1) {
+    const point = tempoMap[index];
+    if (point.beat >= beats) {
+      break;
+    }
+    const nextBeat = Math.min(beats, tempoMap[index + 1]?.beat ?? beats);
+    seconds += (nextBeat - point.beat) * (60 / point.bpm);
+  }
+  return seconds;
+}
+
+function createMidiFile(score: ParsedScore, ticksPerBeat = 480) {
+  const tempoMap = buildTempoMap(score);
+
+  let melodicIndex = 0;
+  const trackChunks = score.voices.map((voice, index) => {
+    const channel =
+      voice.header.kind === "drums"
+        ? DRUM_CHANNEL
+        : voiceChannel(melodicIndex++);
+    const midiEvents = createVoiceEvents(voice, channel, ticksPerBeat);
+    if (index === 0) {
+      for (const point of tempoMap) {
+        const tempo = Math.round(60000000 / point.bpm);
+        midiEvents.push({
+          tick: Math.round(point.beat * ticksPerBeat),
+          order: 0,
+          bytes: [0xff, 0x51, 0x03, (tempo >> 16) & 0xff, (tempo >> 8) & 0xff, tempo & 0xff],
+        });
+      }
+      for (const point of buildTimeSignatureMap(score)) {
+        midiEvents.push({
+          tick: Math.round(point.beat * ticksPerBeat),
+          order: 0,
+          bytes: timeSignatureBytes(point.time),
+        });
+      }
+    }
+    return encodeTrack(midiEvents);
+  });
+
+  const headerChunk = Buffer.alloc(14);
+  headerChunk.write("MThd", 0);
+  headerChunk.writeUInt32BE(6, 4);
+  headerChunk.writeUInt16BE(trackChunks.length > 1 ? 1 : 0, 8);
+  headerChunk.writeUInt16BE(trackChunks.length, 10);
+  headerChunk.writeUInt16BE(ticksPerBeat, 12);
+
+  return Buffer.concat([headerChunk, ...trackChunks]);
+}
+
+export function scoreToMidiBuffer(score: ParsedScore) {
+  return createMidiFile(score);
+}
+
+function exactDurationTokens(duration: number) {
+  const epsilon = 0.0001;
+  for (let halves = 0; halves <= 4; halves += 1) {
+    for (let dots = 0; dots <= 1; dots += 1) {
+      const core = Math.pow(0.5, halves) * Math.pow(1.5, dots);
+      const sustain = duration - core;
+      if (sustain < -epsilon || Math.abs(sustain - Math.round(sustain)) > epsilon) {
+        continue;
+      }
+      return (
+        "/".repeat(halves) +
+        ".".repeat(dots) +
+        "~".repeat(Math.max(0, Math.round(sustain)))
+      );
+    }
+  }
+  return null;
+}
+
+function durationToTokens(duration: number) {
+  const exact = exactDurationTokens(duration);
+  if (exact !== null) {
+    return exact;
+  }
+
+  const rounded = exactDurationTokens(Math.max(0.0625, Math.round(duration * 16) / 16));
+  if (rounded !== null) {
+    return rounded;
+  }
+
+  return "~".repeat(Math.max(0, Math.round(duration) - 1));
+}
+
+function tupletCountFor(duration: number) {
+  if (exactDurationTokens(duration) !== null) {
+    return null;
+  }
+  for (const count of [3, 5, 6, 7]) {
+    if (exactDurationTokens(duration * count / defaultTupletSpan(count)) !== null) {
+      return count;
+    }
+  }
+  return null;
+}
+
+function noteToText(note: NoteSpec) {
+  const octaveMods =
+    (note.octaveShift > 0 ? "+".repeat(note.octaveShift) : "") +
+    (note.octaveShift < 0 ? "-".repeat(-note.octaveShift) : "");
+  const accidentalMods =
+    (note.accidental > 0 ? "#".repeat(note.accidental) : "") +
+    (note.accidental < 0 ? "b".repeat(-note.accidental) : "");
+  return `${note.degree}${octaveMods}${accidentalMods}`;
+}
+
+function absoluteNoteToText(note: NoteSpec, header: ScoreHeader) {
+  const midi = degreeToMidi(
+    note.degree,
+    note.octaveShift,
+    note.accidental,
+    header,
+  );
+  const names =
+    keySignatureSharps(header) < 0 ? FLAT_KEY_NAMES : SHARP_KEY_NAMES;
+  return `${names[midi % 12]}${Math.floor(midi / 12) - 1}`;
+}
+
+function noteText(note: NoteSpec, header: ScoreHeader) {
+  return isAbsolute(header)
+    ? absoluteNoteToText(note, header)
+    : noteToText(note);
+}
+
+function keyToText(key: string, mode: string) {
+  if (mode === "aeolian") {
+    return `Key=${key}m`;
+  }
+  return mode === "major" ? `Key=${key}` : `Key=${key} Mode=${mode}`;
+}
+
+function changesToText(changes: Partial<ScoreHeader>, header: ScoreHeader) {
+  const fields: string[] = [];
+  if (changes.key !== undefined || changes.mode !== undefined) {
+    fields.push(keyToText(header.key, header.mode));
+  }
+  if (changes.program !== undefined) fields.push(`Instr=${changes.program}`);
+  if (changes.bpm !== undefined) fields.push(`BPM=${changes.bpm}`);
+  if (changes.volume !== undefined) fields.push(`Vol=${changes.volume}`);
+  if (changes.octave !== undefined) fields.push(`Oct=${changes.octave}`);
+  if (changes.time !== undefined) fields.push(`Time=${changes.time}`);
+  if (changes.pattern !== undefined) fields.push(`Pattern=${changes.pattern}`);
+  if (changes.bendRange !== undefined) fields.push(`Bend=${changes.bendRange}`);
+  if (changes.notation !== undefined) fields.push(`Notation=${changes.notation}`);
+  return `[${fields.join(" ")}]`;
+}
+
+function drumStepsFor(durationBeats: number) {
+  return Math.max(1, Math.round(durationBeats / DRUM_STEP_BEATS));
+}
+
+function drumEventToText(drums: number[], durationBeats: number, marks: string) {
+  const codes = drums.map((note) => GM_DRUM_CODES[note] ?? DEFAULT_DRUM_CODE);
+  const unique = Array.from(new Set(codes));
+  const hit = unique.length > 1 ? `(${unique.join("")})` : unique[0];
+  return `${hit}${marks}${".".repeat(drumStepsFor(durationBeats) - 1)}`;
+}
+
+function mergeDrumSteps(tokens: TextToken[], time: string) {
+  const output: TextToken[] = [];
+  let barLength = barLengthBeats(time);
+  let position = 0;
+  let word: TextToken | null = null;
+
+  for (const token of tokens) {
+    if (token.time !== undefined) {
+      barLength = barLengthBeats(token.time);
+    }
+    const isStep = token.beats > 0 && /^[A-Z().>'^]+$/.test(token.text);
+    const atBarStart =
+      Math.abs(position / barLength - Math.round(position / barLength)) <
+      0.0001;
+    if (isStep && word !== null && !atBarStart) {
+      word.text += token.text;
+      word.beats += token.beats;
+    } else {
+      word = isStep ? { ...token } : null;
+      output.push(word ?? token);
+    }
+    position += token.beats;
+  }
+
+  return output;
+}
+
+function eventToText(
+  event: ScoreEvent,
+  durationBeats: number,
+  header: ScoreHeader,
+) {
+  if (event.type === "change") {
+    return changesToText(event.changes ?? {}, header);
+  }
+  const duration = durationToTokens(durationBeats);
+  if (event.type === "rest") {
+    return header.kind === "drums"
+      ? ".".repeat(drumStepsFor(durationBeats))
+      : `0${duration}`;
+  }
+  const graces =
+    event.graces !== undefined
+      ? `{${event.graces.map((note) => noteText(note, header)).join("")}}`
+      : "";
+  const ornament =
+    ORNAMENT_SUFFIXES.find(([, name]) => name === event.ornament)?.[0] ?? "";
+  const marks =
+    (event.accent ? ">" : "") +
+    (event.articulation === "staccato" ? "'" : "") +
+    (event.articulation === "tenuto" ? "^" : "") +
+    (event.tie ? "&" : "") +
+    (event.lyric !== undefined ? `"${event.lyric.replace(/"/g, "")}"` : "");
+  if (event.symbol !== undefined) {
+    return `${event.symbol}${duration}${marks}`;
+  }
+  if (event.drums !== undefined) {
+    return drumEventToText(event.drums, durationBeats, marks);
+  }
+  if (event.type === "chord") {
+    const chordNotes = event.notes
+      .map((note) => noteText(note, header))
+      .join("");
+    return `${graces}(${chordNotes})${duration}${marks}`;
+  }
+  return `${graces}${noteText(event.notes[0], header)}${ornament}${duration}${marks}`;
+}
+
+function compressRepeats(tokens: TextToken[], time: string) {
+  if (tokens.some((token) => token.time !== undefined)) {
+    return tokens;
+  }
+  const barLength = barLengthBeats(time);
+  const positions = [0];
+  for (const token of tokens) {
+    positions.push(positions[positions.length - 1] + token.beats);
+  }
+  const isBarMultiple = (beats: number) =>
+    Math.abs(beats / barLength - Math.round(beats / barLength)) < 0.0001;
+
+  const output: TextToken[] = [];
+  let i = 0;
+  while (i < tokens.length) {
+    let runLength = 0;
+    if (isBarMultiple(positions[i])) {
+      const maxLength = Math.min(64, Math.floor((tokens.length - i) / 2));
+      for (let length = maxLength; length >= 1; length -= 1) {
+        const runBeats = positions[i + length] - positions[i];
+        if (
+          runBeats < barLength - 0.0001 ||
+          !isBarMultiple(runBeats) ||
+          tokens[i + length - 1].beats === 0
+        ) {
+          continue;
+        }
+        let same = true;
+        for (let k = 0; k < length && same; k += 1) {
+          same = tokens[i + k].text === tokens[i + length + k].text;
+        }
+        if (same) {
+          runLength = length;
+          break;
+        }
+      }
+    }
+    if (runLength === 0) {
+      output.push(tokens[i]);
+      i += 1;
+      continue;
+    }
+    const run = tokens.slice(i, i + runLength).map((token) => ({ ...token }));
+    run[0].repeatStart = true;
+    run[run.length - 1].repeatEnd = true;
+    output.push(...run);
+    i += runLength * 2;
+  }
+  return output;
+}
+
+function splitAtBars(events: ScoreEvent[], time: string) {
+  const output: ScoreEvent[] = [];
+  let barLength = barLengthBeats(time);
+  let position = 0;
+  for (const event of events) {
+    if (event.changes?.time !== undefined && position < 0.0001) {
+      barLength = barLengthBeats(event.changes.time);
+    }
+    let current = event;
+    let remaining = event.durationBeats;
+    while (
+      tupletCountFor(remaining) === null &&
+      remaining > barLength - position + 0.0001 &&
+      exactDurationTokens(barLength - position) !== null &&
+      exactDurationTokens(remaining - barLength + position) !== null
+    ) {
+      const head = barLength - position;
+      output.push(splitHead(current, head));
+      current = splitTail(current);
+      remaining -= head;
+      position = 0;
+    }
+    output.push(
+      remaining === event.durationBeats
+        ? event
+        : { ...current, durationBeats: remaining },
+    );
+    position += remaining;
+    while (position >= barLength - 0.0001) {
+      position -= barLength;
+    }
+    if (position < 0.0001) {
+      position = 0;
+    }
+  }
+  return output;
+}
+
+function joinWithBars(tokens: TextToken[], time: string) {
+  const barsPerLine = 4;
+  let barLength = barLengthBeats(time);
+  let position = 0;
+  let bars = 0;
+  let output = "";
+
+  for (const token of tokens) {
+    if (token.time !== undefined && position < 0.0001) {
+      barLength = barLengthBeats(token.time);
+    }
+    if (token.repeatStart) {
+      if (/ \|\n?$/.test(output)) {
+        output = output.replace(/ \|(\n?)$/, " |:$1");
+      } else {
+        output += output && !output.endsWith("\n") ? " |:" : "|:";
+      }
+    }
+    output += `${output && !output.endsWith("\n") ? " " : ""}${token.text}`;
+    position += token.beats;
+    if (token.beats === 0 || position < barLength - 0.0001) {
+      continue;
+    }
+    while (position >= barLength - 0.0001) {
+      position -= barLength;
+    }
+    if (position < 0.0001) {
+      position = 0;
+    }
+    bars += 1;
+    output += token.repeatEnd ? " :|" : " |";
+    output += bars % barsPerLine === 0 ? "\n" : "";
+  }
+
+  return output.trimEnd();
+}
+
+function withNotation(voice: ScoreVoice, notation: Notation): ScoreVoice {
+  return {
+    ...voice,
+    header: { ...voice.header, notation },
+    events: voice.events.flatMap((event) => {
+      if (event.changes?.notation === undefined) {
+        return [event];
+      }
+      const changes = { ...event.changes };
+      delete changes.notation;
+      return Object.keys(changes).length > 0 ? [{ ...event, changes }] : [];
+    }),
+  };
+}
 
-  let tick = 0;
+function voiceToText(source: ScoreVoice, options: ScoreTextOptions = {}) {
+  const voice = options.notation
+    ? withNotation(source, options.notation)
+    : source;
+  const header = voice.header;
+  const kindText =
+    header.kind === "chords"
+      ? "Chords "
+      : header.kind === "drums"
+        ? "Drums "
+        : "";
+  const patternText =
+    (header.kind === "chords" ? ` Pattern=${header.pattern}` : "") +
+    (header.bendRange !== DEFAULT_HEADER.bendRange
+      ? ` Bend=${header.bendRange}`
+      : "") +
+    (isAbsolute(header) ? " Notation=abs" : "") +
+    (header.font ? ` Font=${header.font}` : "");
+  const headerText = `[${kindText}${keyToText(header.key, header.mode)} Instr=${header.program} BPM=${header.bpm} Vol=${header.volume} Oct=${header.octave} Time=${header.time}${patternText}]`;
+  const tokens: TextToken[] = [];
+  let tuplet: string[] = [];
+  let tupletCount = 0;
+  let tupletBeats = 0;
+  let levelVelocity = clamp(Math.round(header.volume * 127), 1, 127);
+  let currentHeader = header;
+
+  const flushTuplet = () => {
+    if (tuplet.length > 0) {
+      tokens.push({
+        text: `{${tupletCount}: ${tuplet.join(" ")}}`,
+        beats: tupletBeats,
+      });
+    }
+    tuplet = [];
+    tupletBeats = 0;
+  };
+
+  const events =
+    header.kind === "drums"
+      ? voice.events
+      : splitAtBars(voice.events, header.time);
   for (const event of events) {
-    const durationTicks = Math.round(event.durationBeats * ticksPerBeat);
-    if (event.type === "rest") {
-      tick += durationTicks;
+    if (event.type === "change") {
+      currentHeader = { ...currentHeader, ...event.changes };
+    }
+    const count = tupletCountFor(event.durationBeats);
+    if (count === null) {
+      flushTuplet();
+      if (
+        event.velocity !== undefined &&
+        Math.abs(event.velocity - levelVelocity) > 12
+      ) {
+        const mark = nearestDynamic(event.velocity);
+        tokens.push({
+          text: isAbsolute(currentHeader) ? `!${mark}!` : mark,
+          beats: 0,
+        });
+        levelVelocity = DYNAMIC_VELOCITIES[mark];
+      }
+      tokens.push({
+        text: eventToText(event, event.durationBeats, currentHeader),
+        beats: event.durationBeats,
+        time: event.changes?.time,
+      });
       continue;
     }
-
-    const midiNotes = event.notes.map((note) =>
-      degreeToMidi(note.degree, note.octaveShift, note.accidental, header),
+    if (count !== tupletCount) {
+      flushTuplet();
+      tupletCount = count;
+    }
+    tuplet.push(
+      eventToText(
+        event,
+        (event.durationBeats * count) / defaultTupletSpan(count),
+        currentHeader,
+      ),
     );
-    for (const note of midiNotes) {
-      midiEvents.push({
-        tick,
-        order: 3,
-        bytes: [0x90, note, velocity],
-      });
-      midiEvents.push({
-        tick: tick + durationTicks,
-        order: 0,
-        bytes: [0x80, note, 0],
-      });
+    tupletBeats += event.durationBeats;
+    if (Math.abs(tupletBeats * 2 - Math.round(tupletBeats * 2)) < 0.0001) {
+      flushTuplet();
     }
-    tick += durationTicks;
   }
+  flushTuplet();
 
-  midiEvents.sort((a, b) => {
-    if (a.tick !== b.tick) {
-      return a.tick - b.tick;
-    }
-    return a.order - b.order;
-  });
+  const merged =
+    header.kind === "drums" ? mergeDrumSteps(tokens, header.time) : tokens;
+  const body = options.compressRepeats
+    ? compressRepeats(merged, header.time)
+    : merged;
+  return `${headerText}\n${joinWithBars(body, header.time)}`;
+}
 
-  const trackData: number[] = [];
-  let lastTick = 0;
-  for (const event of midiEvents) {
-    const delta = event.tick - lastTick;
-    trackData.push(...writeVarLen(delta), ...event.bytes);
-    lastTick = event.tick;
+export function scoreToText(score: ParsedScore, options: ScoreTextOptions = {}) {
+  if (score.voices.length <= 1) {
+    return voiceToText(score.voices[0] ?? createVoice(score.header), options);
   }
-  trackData.push(0x00, 0xff, 0x2f, 0x00);
+  return score.voices
+    .map(
+      (voice, index) => `// Track ${index + 1}\n${voiceToText(voice, options)}`,
+    )
+    .join("\n\n");
+}
 
-  const headerChunk = Buffer.alloc(14);
-  headerChunk.write("MThd", 0);
-  headerChunk.writeUInt32BE(6, 4);
-  headerChunk.writeUInt16BE(0, 8);
-  headerChunk.writeUInt16BE(1, 10);
-  headerChunk.writeUInt16BE(ticksPerBeat, 12);
+function keyNameFor(pitchClass: number, mode: string) {
+  const majorTonic =
+    (pitchClass - (MODE_RELATIVE_MAJOR[mode] ?? 0) + 12) % 12;
+  const sharps = (majorTonic * 7) % 12;
+  return (sharps >= 6 ? FLAT_KEY_NAMES : SHARP_KEY_NAMES)[pitchClass];
+}
 
-  const trackChunkHeader = Buffer.alloc(8);
-  trackChunkHeader.write("MTrk", 0);
-  trackChunkHeader.writeUInt32BE(trackData.length, 4);
+function tonicMidi(header: ScoreHeader) {
+  return 12 * (header.octave + 1) + (KEY_OFFSETS[header.key] ?? 0);
+}
 
-  return Buffer.concat([headerChunk, trackChunkHeader, Buffer.from(trackData)]);
+function shiftHeader(header: ScoreHeader, semitones: number): ScoreHeader {
+  const tonic = tonicMidi(header) + semitones;
+  return {
+    ...header,
+    key: keyNameFor(((tonic % 12) + 12) % 12, header.mode),
+    octave: Math.floor(tonic / 12) - 1,
+  };
 }
 
-export function scoreToMidiBuffer(score: ParsedScore) {
-  return createMidiFile(score.header, score.events);
+function respellHeader(
+  header: ScoreHeader,
+  target: { key: string; mode: string },
+): ScoreHeader {
+  const offset = KEY_OFFSETS[target.key] ?? 0;
+  return {
+    ...header,
+    key: target.key,
+    mode: target.mode,
+    octave: Math.round((tonicMidi(header) - offset) / 12) - 1,
+  };
 }
 
-function durationToTokens(duration: number) {
-  const epsilon = 0.0001;
-  const base = Math.max(1, Math.floor(duration));
-  const isInteger = Math.abs(duration - base) < epsilon;
-  if (isInteger) {
-    return "~".repeat(Math.max(0, base - 1));
-  }
+function transposeChordSymbol(
+  symbol: string,
+  semitones: number,
+  header: ScoreHeader,
+) {
+  const names =
+    keySignatureBytes(header)[3] > 127 ? FLAT_KEY_NAMES : SHARP_KEY_NAMES;
+  return symbol.replace(
+    /^([A-G][#b]?)|\/([A-G][#b]?)$/g,
+    (match, root?: string, bass?: string) => {
+      const name = root ?? bass ?? match;
+      const pitchClass = KEY_OFFSETS[name];
+      if (pitchClass === undefined) {
+        return match;
+      }
+      const shifted = names[(((pitchClass + semitones) % 12) + 12) % 12];
+      return root !== undefined ? shifted : `/${shifted}`;
+    },
+  );
+}
 
-  const isDotted = Math.abs(duration - (base + 0.5)) < epsilon;
-  if (isDotted) {
-    return `.${"~".repeat(Math.max(0, base - 1))}`;
+function transposeVoice(
+  voice: ScoreVoice,
+  resolveHeader: (header: ScoreHeader, base: ScoreHeader) => ScoreHeader,
+  semitones: number,
+): ScoreVoice {
+  if (voice.header.kind === "drums") {
+    return voice;
   }
+  let sourceHeader = voice.header;
+  let targetHeader = resolveHeader(sourceHeader, voice.header);
+  const header = targetHeader;
+  const moveNote = (note: NoteSpec) => {
+    const midi = degreeToMidi(
+      note.degree,
+      note.octaveShift,
+      note.accidental,
+      sourceHeader,
+    );
+    return midiNoteToSpec(clamp(midi + semitones, 0, 127), targetHeader);
+  };
 
-  return "~".repeat(Math.max(0, Math.round(duration) - 1));
+  const events: ScoreEvent[] = [];
+  for (const event of voice.events) {
+    if (event.type === "change") {
+      const changes = event.changes ?? {};
+      sourceHeader = { ...sourceHeader, ...changes };
+      const nextHeader =
+        changes.key !== undefined ||
+        changes.mode !== undefined ||
+        changes.octave !== undefined
+          ? resolveHeader(sourceHeader, voice.header)
+          : { ...targetHeader, ...changes };
+      const nextChanges = diffHeader(targetHeader, nextHeader);
+      targetHeader = nextHeader;
+      if (Object.keys(nextChanges).length > 0) {
+        events.push({ ...event, changes: nextChanges });
+      }
+      continue;
+    }
+    if (event.drums !== undefined || event.type === "rest") {
+      events.push(event);
+      continue;
+    }
+    events.push({
+      ...event,
+      notes: event.notes.map(moveNote),
+      ...(event.graces ? { graces: event.graces.map(moveNote) } : {}),
+      ...(event.symbol !== undefined && semitones !== 0
+        ? {
+            symbol: transposeChordSymbol(event.symbol, semitones, targetHeader),
+          }
+        : {}),
+    });
+  }
+  return { ...voice, header, events };
 }
 
-function noteToText(note: NoteSpec) {
-  const octaveMods =
-    (note.octaveShift > 0 ? "+".repeat(note.octaveShift) : "") +
-    (note.octaveShift < 0 ? "-".repeat(-note.octaveShift) : "");
-  const accidentalMods =
-    (note.accidental > 0 ? "#".repeat(note.accidental) : "") +
-    (note.accidental < 0 ? "b".repeat(-note.accidental) : "");
-  return `${note.degree}${octaveMods}${accidentalMods}`;
-}
+export function transposeScore(
+  score: ParsedScore,
+  options: TransposeOptions,
+): ParsedScore {
+  const target = options.key !== undefined ? parseKeyName(options.key) : null;
+  if (options.key !== undefined && !target) {
+    throw new Error(`无法识别的目标调: ${options.key}`);
+  }
+  if (!target && options.semitones === undefined) {
+    throw new Error("需要提供 semitones 或目标调 key");
+  }
+  const semitones = Math.round(options.semitones ?? 0);
+  if (!Number.isFinite(semitones)) {
+    throw new Error("semitones 必须是有限数值");
+  }
+  if (Math.abs(semitones) > 48) {
+    throw new Error("移调幅度不能超过 48 个半音");
+  }
 
-export function scoreToText(score: ParsedScore) {
-  const header = score.header;
-  const headerText = `[Key=${header.key} Instr=${header.program} BPM=${header.bpm} Vol=${header.volume} Oct=${header.octave}]`;
-  const body = score.events
-    .map((event) => {
-      const duration = durationToTokens(event.durationBeats);
-      if (event.type === "rest") {
-        return `0${duration}`;
-      }
-      if (event.type === "chord") {
-        const chordNotes = event.notes.map(noteToText).join("");
-        return `(${chordNotes})${duration}`;
-      }
-      return `${noteToText(event.notes[0])}${duration}`;
-    })
-    .join(" ");
+  let resolveHeader: (header: ScoreHeader, base: ScoreHeader) => ScoreHeader;
+  let pitchShift = 0;
+  if (options.mode === "respell") {
+    resolveHeader = target
+      ? (header, base) => ({
+          ...respellHeader(header, target),
+          octave: respellHeader(base, target).octave,
+        })
+      : (header) => respellHeader(header, shiftHeader(header, semitones));
+  } else if (target) {
+    const sourceOffset = KEY_OFFSETS[score.header.key] ?? 0;
+    const interval = (KEY_OFFSETS[target.key] - sourceOffset + 12) % 12;
+    pitchShift = interval > 6 ? interval - 12 : interval;
+    resolveHeader = (header, base) =>
+      shiftHeader(
+        header.mode === base.mode ? { ...header, mode: target.mode } : header,
+        pitchShift,
+      );
+  } else {
+    pitchShift = semitones;
+    resolveHeader = (header) => shiftHeader(header, pitchShift);
+  }
 
-  return `${headerText}\n${body}`;
+  const voices = score.voices.map((voice) =>
+    transposeVoice(voice, resolveHeader, pitchShift),
+  );
+  return {
+    ...score,
+    header: voices[0]?.header ?? resolveHeader(score.header, score.header),
+    voices,
+  };
 }
 
 type MidiNoteEvent = {
@@ -487,18 +3107,57 @@ type MidiNoteEvent = {
   endTick: number;
   note: number;
   velocity: number;
+  channel: number;
+};
+
+type ImportVoice = {
+  start: number;
+  end: number;
+  pitch: number;
+  notes: MidiNoteEvent[];
+};
+
+type MidiLyric = {
+  tick: number;
+  text: string;
+};
+
+type MidiKeySignature = {
+  key: string;
+  mode: string;
 };
 
 type ParsedMidiTrack = {
-  program: number;
-  volume: number;
+  name: string | null;
+  instrumentName: string | null;
+  programs: number[];
+  volumes: number[];
+  keySignature: MidiKeySignature | null;
   noteEvents: MidiNoteEvent[];
+  lyrics: MidiLyric[];
+};
+
+type MidiTempoPoint = {
+  tick: number;
+  tempo: number;
+};
+
+type MidiTimeSignaturePoint = {
+  tick: number;
+  time: string;
+};
+
+type HeaderChangePoint = {
+  beat: number;
+  changes: Partial<ScoreHeader>;
 };
 
 type ParsedMidiData = {
   ticksPerBeat: number;
-  tempo: number;
+  tempoMap: MidiTempoPoint[];
+  timeSignatureMap: MidiTimeSignaturePoint[];
   tracks: ParsedMidiTrack[];
+  warnings: ScoreDiagnostic[];
 };
 
 function readUInt32BE(data: Uint8Array, offset: number) {
@@ -510,25 +3169,26 @@ function readUInt32BE(data: Uint8Array, offset: number) {
   ) >>> 0;
 }
 
-function readVarLen(data: Uint8Array, offset: number) {
+function readVarLen(data: Uint8Array, offset: number, end: number) {
   let value = 0;
-  let i = offset;
-  while (i < data.length) {
+  for (let i = offset; i < offset + 4; i += 1) {
+    if (i >= end) {
+      throw new MidiParseError("truncated", "MIDI 数据意外结束");
+    }
     const byte = data[i];
-    value = (value << 7) | (byte & 0x7f);
-    i += 1;
+    value = value * 128 + (byte & 0x7f);
     if ((byte & 0x80) === 0) {
-      break;
+      return { value, next: i + 1 };
     }
   }
-  return { value, next: i };
+  throw new MidiParseError("invalid-event", "MIDI 可变长度数值超过 4 字节");
 }
 
-function quantizeBeats(beats: number) {
-  return Math.max(0.5, Math.round(beats * 2) / 2);
+function quantizeBeats(beats: number, gridBeats: number) {
+  return Math.max(gridBeats, Math.round(beats / gridBeats) * gridBeats);
 }
 
-function midiNoteToSpec(
+export function midiNoteToSpec(
   note: number,
   header: ScoreHeader,
 ): NoteSpec {
@@ -538,214 +3198,904 @@ function midiNoteToSpec(
   const octaveShift = Math.floor(diff / 12);
   const pitchClass = ((diff % 12) + 12) % 12;
 
+  const scale = scaleFor(header);
+
   let bestDegree = 1;
   let bestAccidental = 0;
+  let bestOctaveShift = octaveShift;
   let bestDistance = Number.POSITIVE_INFINITY;
 
   for (let degree = 1; degree <= 7; degree += 1) {
-    const scaleOffset = MAJOR_SCALE[degree - 1] ?? 0;
+    const scaleOffset = scale[degree - 1] ?? 0;
     let accidental = pitchClass - scaleOffset;
-    if (accidental > 6) accidental -= 12;
-    if (accidental < -6) accidental += 12;
+    let wrap = 0;
+    if (accidental > 6) {
+      accidental -= 12;
+      wrap = 1;
+    }
+    if (accidental < -6) {
+      accidental += 12;
+      wrap = -1;
+    }
     const distance = Math.abs(accidental);
-    if (distance < bestDistance) {
+    if (
+      distance < bestDistance ||
+      (distance === bestDistance && accidental > bestAccidental)
+    ) {
       bestDistance = distance;
       bestDegree = degree;
       bestAccidental = accidental;
+      bestOctaveShift = octaveShift + wrap;
+    }
+  }
+
+  return {
+    degree: bestDegree,
+    accidental: bestAccidental,
+    octaveShift: bestOctaveShift,
+  };
+}
+
+function metaText(metaData: Uint8Array) {
+  const text = Buffer.from(metaData)
+    .toString("utf8")
+    .replace(/\s+/g, " ")
+    .trim();
+  return text || null;
+}
+
+function parseMidiTrack(
+  data: Uint8Array,
+  offset: number,
+  trackEnd: number,
+  counter: { events: number },
+  maxTick: number,
+) {
+  let currentTick = 0;
+  let runningStatus = 0;
+  const programs = new Array<number>(16).fill(0);
+  const volumes = new Array<number>(16).fill(0.8);
+  const tempoMap: MidiTempoPoint[] = [];
+  const timeSignatureMap: MidiTimeSignaturePoint[] = [];
+  let keySignature: MidiKeySignature | null = null;
+  let name: string | null = null;
+  let instrumentName: string | null = null;
+
+  const activeNotes = new Map<
+    string,
+    { startTick: number; velocity: number }
+  >();
+  const noteEvents: MidiNoteEvent[] = [];
+  const lyrics: MidiLyric[] = [];
+
+  const need = (count: number) => {
+    if (offset + count > trackEnd) {
+      throw new MidiParseError("truncated", "MIDI 数据意外结束");
+    }
+  };
+  let truncated = false;
+
+  try {
+    while (offset < trackEnd) {
+      counter.events += 1;
+      if (counter.events > MAX_MIDI_EVENTS) {
+        throw new MidiParseError(
+          "too-many-events",
+          `MIDI 事件数量超过上限 ${MAX_MIDI_EVENTS}`,
+        );
+      }
+      const delta = readVarLen(data, offset, trackEnd);
+      offset = delta.next;
+      currentTick += delta.value;
+      if (currentTick > maxTick) {
+        throw new MidiParseError(
+          "too-long",
+          `MIDI 时长超过上限 ${MAX_MIDI_BEATS} 拍`,
+        );
+      }
+
+      need(1);
+      let status = data[offset];
+      if (status < 0x80) {
+        if (runningStatus === 0) {
+          throw new MidiParseError(
+            "invalid-event",
+            `MIDI 事件缺少状态字节（偏移 ${offset}）`,
+          );
+        }
+        status = runningStatus;
+      } else {
+        offset += 1;
+      }
+
+      if (status === 0xff) {
+        runningStatus = 0;
+        need(1);
+        const metaType = data[offset];
+        offset += 1;
+        const lengthInfo = readVarLen(data, offset, trackEnd);
+        offset = lengthInfo.next;
+        need(lengthInfo.value);
+        const metaData = data.subarray(offset, offset + lengthInfo.value);
+        offset += lengthInfo.value;
+
+        if (metaType === 0x51 && metaData.length === 3) {
+          const tempo =
+            (metaData[0] << 16) | (metaData[1] << 8) | metaData[2];
+          if (tempo > 0) {
+            tempoMap.push({ tick: currentTick, tempo });
+          }
+        }
+        if (metaType === 0x58 && metaData.length >= 2) {
+          const time = `${metaData[0]}/${Math.pow(2, metaData[1])}`;
+          if (parseTimeSignature(time)) {
+            timeSignatureMap.push({ tick: currentTick, time });
+          }
+        }
+        if (metaType === 0x03 && name === null) {
+          name = metaText(metaData);
+        }
+        if (metaType === 0x04 && instrumentName === null) {
+          instrumentName = metaText(metaData);
+        }
+        if (metaType === 0x05 && metaData.length > 0) {
+          lyrics.push({
+            tick: currentTick,
+            text: Buffer.from(metaData).toString("utf8"),
+          });
+        }
+        if (
+          metaType === 0x59 &&
+          metaData.length === 2 &&
+          keySignature === null
+        ) {
+          const sharps = metaData[0] > 127 ? metaData[0] - 256 : metaData[0];
+          keySignature = keySignatureToHeader(sharps, metaData[1] === 1);
+        }
+        continue;
+      }
+
+      if (status === 0xf0 || status === 0xf7) {
+        runningStatus = 0;
+        const lengthInfo = readVarLen(data, offset, trackEnd);
+        offset = lengthInfo.next;
+        need(lengthInfo.value);
+        offset += lengthInfo.value;
+        continue;
+      }
+
+      if (status >= 0xf0) {
+        throw new MidiParseError(
+          "invalid-event",
+          `MIDI 文件中不允许的状态字节 0x${status.toString(16)}`,
+        );
+      }
+
+      runningStatus = status;
+      const eventType = status & 0xf0;
+      const channel = status & 0x0f;
+      const dataLength = eventType === 0xc0 || eventType === 0xd0 ? 1 : 2;
+      need(dataLength);
+      const data1 = data[offset];
+      const data2 = dataLength === 2 ? data[offset + 1] : 0;
+      if ((data1 | data2) & 0x80) {
+        throw new MidiParseError(
+          "invalid-event",
+          `MIDI 事件数据字节无效（偏移 ${offset}）`,
+        );
+      }
+
+      if (eventType === 0xc0) {
+        programs[channel] = data1;
+        offset += 1;
+        continue;
+      }
+
+      if (eventType === 0xb0) {
+        if (data1 === 0x07) {
+          volumes[channel] = clamp(data2 / 127, 0, 1);
+        }
+        offset += 2;
+        continue;
+      }
+
+      if (eventType === 0x90) {
+        const note = data1;
+        const velocity = data2;
+        offset += 2;
+        const key = `${channel}-${note}`;
+        if (velocity === 0) {
+          const active = activeNotes.get(key);
+          if (active) {
+            noteEvents.push({
+              startTick: active.startTick,
+              endTick: currentTick,
+              note,
+              velocity: active.velocity,
+              channel,
+            });
+            activeNotes.delete(key);
+          }
+        } else {
+          activeNotes.set(key, { startTick: currentTick, velocity });
+        }
+        continue;
+      }
+
+      if (eventType === 0x80) {
+        const note = data1;
+        offset += 2;
+        const key = `${channel}-${note}`;
+        const active = activeNotes.get(key);
+        if (active) {
+          noteEvents.push({
+            startTick: active.startTick,
+            endTick: currentTick,
+            note,
+            velocity: active.velocity,
+            channel,
+          });
+          activeNotes.delete(key);
+        }
+        continue;
+      }
+
+      offset += dataLength;
+    }
+  } catch (error) {
+    if (!(error instanceof MidiParseError) || error.code !== "truncated") {
+      throw error;
+    }
+    truncated = true;
+  }
+
+  for (const [key, active] of activeNotes) {
+    if (currentTick > active.startTick) {
+      const [channel, note] = key.split("-").map(Number);
+      noteEvents.push({
+        startTick: active.startTick,
+        endTick: currentTick,
+        note,
+        velocity: active.velocity,
+        channel,
+      });
+    }
+  }
+
+  return {
+    truncated,
+    name,
+    instrumentName,
+    programs,
+    volumes,
+    noteEvents,
+    lyrics,
+    tempoMap,
+    timeSignatureMap,
+    keySignature,
+  };
+}
+
+function midiWarning(code: string, message: string): ScoreDiagnostic {
+  return { line: 0, column: 0, length: 0, code, message, severity: "warning" };
+}
+
+export function checkMidiSize(size: number) {
+  if (size > MAX_MIDI_BYTES) {
+    throw new MidiParseError(
+      "too-large",
+      `MIDI 文件过大（上限 ${MAX_MIDI_BYTES / 1024 / 1024} MB）`,
+    );
+  }
+}
+
+function parseMidiBuffer(midiBuffer: Buffer): ParsedMidiData {
+  checkMidiSize(midiBuffer.length);
+  const data = new Uint8Array(midiBuffer);
+  let offset = 0;
+
+  const headerChunk = data.subarray(offset, offset + 4);
+  if (data.length < 14 || String.fromCharCode(...headerChunk) !== "MThd") {
+    throw new MidiParseError("invalid-header", "MIDI 文件头无效");
+  }
+  offset += 4;
+  const headerLength = readUInt32BE(data, offset);
+  offset += 4;
+  if (headerLength < 6 || offset + headerLength > data.length) {
+    throw new MidiParseError("invalid-header", "MIDI 文件头长度无效");
+  }
+  const format = (data[offset] << 8) | data[offset + 1];
+  const numTracks = (data[offset + 2] << 8) | data[offset + 3];
+  const division = (data[offset + 4] << 8) | data[offset + 5];
+  offset += headerLength;
+
+  if (format > 2) {
+    throw new MidiParseError(
+      "unsupported-format",
+      `不支持的 MIDI 格式 ${format}`,
+    );
+  }
+  if (numTracks < 1) {
+    throw new MidiParseError("invalid-track", "MIDI 轨道数量无效");
+  }
+
+  let ticksPerSecond = 0;
+  if (division & 0x8000) {
+    const frameRate = SMPTE_FRAME_RATES[256 - (division >> 8)];
+    const ticksPerFrame = division & 0xff;
+    if (!frameRate || ticksPerFrame === 0) {
+      throw new MidiParseError("invalid-division", "MIDI SMPTE 时间格式无效");
+    }
+    ticksPerSecond = frameRate * ticksPerFrame;
+  } else if (division === 0) {
+    throw new MidiParseError("invalid-division", "MIDI 每拍刻度数无效");
+  }
+
+  const tracks: ParsedMidiTrack[] = [];
+  const tempoMap: MidiTempoPoint[] = [];
+  const timeSignatureMap: MidiTimeSignaturePoint[] = [];
+  const warnings: ScoreDiagnostic[] = [];
+  const counter = { events: 0 };
+  const maxTick =
+    MAX_MIDI_BEATS * (ticksPerSecond ? ticksPerSecond / 2 : division);
+
+  while (tracks.length < numTracks && offset + 8 <= data.length) {
+    const chunkType = String.fromCharCode(...data.subarray(offset, offset + 4));
+    const chunkLength = readUInt32BE(data, offset + 4);
+    offset += 8;
+    if (chunkType !== "MTrk") {
+      if (!/^[\x20-\x7e]{4}$/.test(chunkType)) {
+        throw new MidiParseError("invalid-track", "MIDI 轨道头无效");
+      }
+      offset += chunkLength;
+      continue;
+    }
+
+    const trackEnd = Math.min(offset + chunkLength, data.length);
+    const isLast = offset + chunkLength >= data.length;
+    const parsed = parseMidiTrack(
+      data,
+      offset,
+      trackEnd,
+      counter,
+      maxTick,
+    );
+    if (parsed.truncated || trackEnd < offset + chunkLength) {
+      if (!isLast) {
+        throw new MidiParseError(
+          "truncated",
+          `MIDI 第 ${tracks.length + 1} 轨数据不完整`,
+        );
+      }
+      warnings.push(
+        midiWarning(
+          "midi-truncated",
+          `MIDI 第 ${tracks.length + 1} 轨被截断，已保留可读取的部分`,
+        ),
+      );
     }
+    tempoMap.push(...parsed.tempoMap);
+    timeSignatureMap.push(...parsed.timeSignatureMap);
+    tracks.push({
+      name: parsed.name,
+      instrumentName: parsed.instrumentName,
+      programs: parsed.programs,
+      volumes: parsed.volumes,
+      keySignature: parsed.keySignature,
+      noteEvents: parsed.noteEvents,
+      lyrics: parsed.lyrics,
+    });
+
+    offset += chunkLength;
+  }
+
+  if (tracks.length === 0) {
+    throw new MidiParseError("invalid-track", "MIDI 文件中没有可读取的轨道");
+  }
+  if (tracks.length < numTracks) {
+    warnings.push(
+      midiWarning(
+        "midi-missing-tracks",
+        `MIDI 文件头声明 ${numTracks} 轨，实际只读取到 ${tracks.length} 轨`,
+      ),
+    );
   }
 
+  const initialTempo = mergeTimeline(tempoMap, { tick: 0, tempo: 500000 })[0];
   return {
-    degree: bestDegree,
-    accidental: bestAccidental,
-    octaveShift,
+    ticksPerBeat: ticksPerSecond
+      ? (ticksPerSecond * initialTempo.tempo) / 1000000
+      : division,
+    tempoMap: ticksPerSecond
+      ? [initialTempo]
+      : mergeTimeline(tempoMap, { tick: 0, tempo: 500000 }),
+    timeSignatureMap: mergeTimeline(timeSignatureMap, {
+      tick: 0,
+      time: DEFAULT_HEADER.time,
+    }),
+    tracks,
+    warnings,
   };
 }
 
-function parseMidiTrack(
-  data: Uint8Array,
-  offset: number,
-  trackLength: number,
-  tempoHint?: number,
+function mergeTimeline<T extends { tick: number }>(points: T[], initial: T) {
+  const byTick = new Map<number, T>([[0, initial]]);
+  for (const point of [...points].sort((a, b) => a.tick - b.tick)) {
+    byTick.set(point.tick, point);
+  }
+  return Array.from(byTick.values()).sort((a, b) => a.tick - b.tick);
+}
+
+function tempoToBpm(tempo: number) {
+  return Math.max(30, Math.round(60000000 / tempo));
+}
+
+function headerChangePoints(
+  tempoMap: MidiTempoPoint[],
+  timeSignatureMap: MidiTimeSignaturePoint[],
+  ticksPerBeat: number,
 ) {
-  let currentTick = 0;
-  let runningStatus = 0;
-  let program = 0;
-  let volume = 0.8;
-  let tempo = tempoHint ?? 500000;
+  const ticks = Array.from(
+    new Set([...tempoMap, ...timeSignatureMap].map((point) => point.tick)),
+  )
+    .filter((tick) => tick > 0)
+    .sort((a, b) => a - b);
+  let bpm = tempoToBpm(tempoMap[0].tempo);
+  let time = timeSignatureMap[0].time;
+  const points: HeaderChangePoint[] = [];
+  for (const tick of ticks) {
+    const changes: Partial<ScoreHeader> = {};
+    const tempoPoint = tempoMap.find((point) => point.tick === tick);
+    if (tempoPoint && tempoToBpm(tempoPoint.tempo) !== bpm) {
+      bpm = tempoToBpm(tempoPoint.tempo);
+      changes.bpm = bpm;
+    }
+    const timePoint = timeSignatureMap.find((point) => point.tick === tick);
+    if (timePoint && timePoint.time !== time) {
+      time = timePoint.time;
+      changes.time = time;
+    }
+    if (Object.keys(changes).length > 0) {
+      points.push({ beat: tick / ticksPerBeat, changes });
+    }
+  }
+  return points;
+}
 
-  const activeNotes = new Map<
-    string,
-    { startTick: number; velocity: number }
-  >();
-  const noteEvents: MidiNoteEvent[] = [];
+function splitHead(event: ScoreEvent, durationBeats: number): ScoreEvent {
+  const sustained = event.type === "note" || event.type === "chord";
+  return sustained && event.drums === undefined
+    ? { ...event, durationBeats, tie: true }
+    : { ...event, durationBeats };
+}
 
-  const trackEnd = offset + trackLength;
-  while (offset < trackEnd) {
-    const delta = readVarLen(data, offset);
-    offset = delta.next;
-    currentTick += delta.value;
+function splitTail(event: ScoreEvent): ScoreEvent {
+  if (event.drums !== undefined) {
+    return { type: "rest", durationBeats: event.durationBeats, notes: [] };
+  }
+  const tail = { ...event };
+  delete tail.graces;
+  delete tail.ornament;
+  delete tail.lyric;
+  delete tail.accent;
+  return tail;
+}
 
-    let status = data[offset];
-    if (status < 0x80) {
-      status = runningStatus;
-    } else {
-      offset += 1;
-      runningStatus = status;
+function insertHeaderChanges(
+  events: ScoreEvent[],
+  points: HeaderChangePoint[],
+) {
+  if (points.length === 0) {
+    return events;
+  }
+  const output: ScoreEvent[] = [];
+  let beat = 0;
+  let next = 0;
+  const flush = (position: number) => {
+    const changes: Partial<ScoreHeader> = {};
+    while (next < points.length && points[next].beat <= position + 0.0001) {
+      Object.assign(changes, points[next].changes);
+      next += 1;
+    }
+    if (Object.keys(changes).length > 0) {
+      output.push({ type: "change", durationBeats: 0, notes: [], changes });
+    }
+  };
+
+  for (const event of events) {
+    flush(beat);
+    let current = event;
+    let remaining = event.durationBeats;
+    while (
+      next < points.length &&
+      points[next].beat < beat + remaining - 0.0001
+    ) {
+      const head = points[next].beat - beat;
+      output.push(splitHead(current, head));
+      current = splitTail(current);
+      beat += head;
+      remaining -= head;
+      flush(beat);
     }
+    output.push({ ...current, durationBeats: remaining });
+    beat += remaining;
+  }
+  while (next < points.length) {
+    if (points[next].beat > beat + 0.0001) {
+      const durationBeats = points[next].beat - beat;
+      output.push({ type: "rest", durationBeats, notes: [] });
+      beat += durationBeats;
+    }
+    flush(beat);
+  }
+  return output;
+}
+
+function correlation(a: number[], b: number[]) {
+  const meanA = a.reduce((sum, value) => sum + value, 0) / a.length;
+  const meanB = b.reduce((sum, value) => sum + value, 0) / b.length;
+  let numerator = 0;
+  let denominatorA = 0;
+  let denominatorB = 0;
+  for (let i = 0; i < a.length; i += 1) {
+    numerator += (a[i] - meanA) * (b[i] - meanB);
+    denominatorA += (a[i] - meanA) ** 2;
+    denominatorB += (b[i] - meanB) ** 2;
+  }
+  const denominator = Math.sqrt(denominatorA * denominatorB);
+  return denominator === 0 ? 0 : numerator / denominator;
+}
+
+function detectKey(
+  noteEvents: MidiNoteEvent[],
+  signature: MidiKeySignature | null,
+): KeyDetection {
+  const histogram = new Array<number>(12).fill(0);
+  for (const noteEvent of noteEvents) {
+    histogram[noteEvent.note % 12] += Math.max(
+      1,
+      noteEvent.endTick - noteEvent.startTick,
+    );
+  }
 
-    if (status === 0xff) {
-      const metaType = data[offset];
-      offset += 1;
-      const lengthInfo = readVarLen(data, offset);
-      offset = lengthInfo.next;
-      const metaData = data.subarray(offset, offset + lengthInfo.value);
-      offset += lengthInfo.value;
+  const scoreKey = (tonic: number, mode: string) => {
+    const profile =
+      mode === "major" ? MAJOR_KEY_PROFILE : MINOR_KEY_PROFILE;
+    return correlation(
+      histogram,
+      profile.map((_, index) => profile[(index - tonic + 12) % 12]),
+    );
+  };
 
-      if (metaType === 0x51 && metaData.length === 3) {
-        tempo =
-          (metaData[0] << 16) | (metaData[1] << 8) | metaData[2];
+  let best = { tonic: 0, mode: "major", score: Number.NEGATIVE_INFINITY };
+  for (let tonic = 0; tonic < 12; tonic += 1) {
+    for (const mode of ["major", "aeolian"]) {
+      const score = scoreKey(tonic, mode);
+      if (score > best.score) {
+        best = { tonic, mode, score };
       }
-      continue;
     }
+  }
 
-    if (status === 0xf0 || status === 0xf7) {
-      const lengthInfo = readVarLen(data, offset);
-      offset = lengthInfo.next + lengthInfo.value;
-      continue;
+  if (noteEvents.length === 0) {
+    return {
+      key: signature?.key ?? DEFAULT_HEADER.key,
+      mode: signature?.mode ?? DEFAULT_HEADER.mode,
+      confidence: 0,
+      source: signature ? "signature" : "detected",
+    };
+  }
+
+  if (signature) {
+    const signatureMode = signature.mode === "major" ? "major" : "aeolian";
+    const signatureScore = scoreKey(
+      KEY_OFFSETS[signature.key] ?? 0,
+      signatureMode,
+    );
+    if (signatureScore >= best.score - 0.05) {
+      return {
+        ...signature,
+        confidence: Math.round(Math.max(0, signatureScore) * 100) / 100,
+        source: "signature",
+      };
     }
+  }
 
-    const eventType = status & 0xf0;
-    const channel = status & 0x0f;
-    const data1 = data[offset];
-    const data2 = data[offset + 1];
+  return {
+    key: keyNameFor(best.tonic, best.mode),
+    mode: best.mode,
+    confidence: Math.round(Math.max(0, best.score) * 100) / 100,
+    source: "detected",
+  };
+}
 
-    if (eventType === 0xc0) {
-      program = data1;
-      offset += 1;
-      continue;
+export function chooseReferenceOctave(notes: number[], header: ScoreHeader) {
+  let bestOctave = header.octave;
+  let bestCost = Number.POSITIVE_INFINITY;
+  for (const octave of [4, 3, 5, 2, 6, 1, 7]) {
+    const candidate = { ...header, octave };
+    const cost = notes.reduce((sum, note) => {
+      const spec = midiNoteToSpec(note, candidate);
+      return sum + Math.abs(spec.octaveShift) * 2 + Math.abs(spec.accidental);
+    }, 0);
+    if (cost < bestCost) {
+      bestOctave = octave;
+      bestCost = cost;
     }
+  }
+  return bestOctave;
+}
 
-    if (eventType === 0xb0) {
-      if (data1 === 0x07) {
-        volume = clamp(data2 / 127, 0, 1);
-      }
-      offset += 2;
-      continue;
+function clusterOnsets(noteEvents: MidiNoteEvent[], tolerance: number) {
+  const clusters: MidiNoteEvent[][] = [];
+  const sorted = [...noteEvents].sort((a, b) => a.startTick - b.startTick);
+  for (const noteEvent of sorted) {
+    const cluster = clusters[clusters.length - 1];
+    if (cluster && noteEvent.startTick - cluster[0].startTick <= tolerance) {
+      cluster.push(noteEvent);
+    } else {
+      clusters.push([noteEvent]);
     }
+  }
+  return clusters;
+}
 
-    if (eventType === 0x90) {
-      const note = data1;
-      const velocity = data2;
-      offset += 2;
-      const key = `${channel}-${note}`;
-      if (velocity === 0) {
-        const active = activeNotes.get(key);
-        if (active) {
-          noteEvents.push({
-            startTick: active.startTick,
-            endTick: currentTick,
-            note,
-            velocity: active.velocity,
-          });
-          activeNotes.delete(key);
-        }
-      } else {
-        activeNotes.set(key, { startTick: currentTick, velocity });
+function separateVoices(noteEvents: MidiNoteEvent[], ticksPerBeat: number) {
+  const tolerance = ticksPerBeat / 4;
+  const candidates: ImportVoice[] = [];
+  const pushCandidate = (start: number, notes: MidiNoteEvent[]) => {
+    candidates.push({
+      start,
+      end: Math.max(...notes.map((item) => item.endTick)),
+      pitch: Math.max(...notes.map((item) => item.note)),
+      notes,
+    });
+  };
+  for (const cluster of clusterOnsets(noteEvents, ticksPerBeat / 12)) {
+    const byEnd = [...cluster].sort((a, b) => a.endTick - b.endTick);
+    let group: MidiNoteEvent[] = [];
+    for (const noteEvent of byEnd) {
+      if (
+        group.length > 0 &&
+        noteEvent.endTick - group[group.length - 1].endTick > tolerance
+      ) {
+        pushCandidate(cluster[0].startTick, group);
+        group = [];
       }
-      continue;
+      group.push(noteEvent);
     }
+    pushCandidate(cluster[0].startTick, group);
+  }
+  candidates.sort((a, b) => a.start - b.start || b.pitch - a.pitch);
 
-    if (eventType === 0x80) {
-      const note = data1;
-      offset += 2;
-      const key = `${channel}-${note}`;
-      const active = activeNotes.get(key);
-      if (active) {
-        noteEvents.push({
-          startTick: active.startTick,
-          endTick: currentTick,
-          note,
-          velocity: active.velocity,
-        });
-        activeNotes.delete(key);
+  const voices: ImportVoice[] = [];
+  for (const candidate of candidates) {
+    const free = voices.filter(
+      (voice) => voice.end <= candidate.start + tolerance,
+    );
+    let target = free.sort(
+      (a, b) =>
+        Math.abs(a.pitch - candidate.pitch) -
+        Math.abs(b.pitch - candidate.pitch),
+    )[0];
+    if (!target && voices.length < MAX_IMPORT_VOICES) {
+      target = { ...candidate, notes: [] };
+      voices.push(target);
+    }
+    if (!target) {
+      target = [...voices].sort((a, b) => a.end - b.end)[0];
+      for (const noteEvent of target.notes) {
+        noteEvent.endTick = Math.min(noteEvent.endTick, candidate.start);
       }
-      continue;
     }
+    target.notes.push(...candidate.notes);
+    target.end = candidate.end;
+    target.pitch = candidate.pitch;
+  }
+
+  const minimumTicks =
+    ticksPerBeat / Math.max(...Object.values(GRID_DIVISIONS));
+  const averagePitch = (notes: MidiNoteEvent[]) =>
+    notes.reduce((sum, item) => sum + item.note, 0) / notes.length;
+  return voices
+    .map((voice) =>
+      voice.notes.map((item) => ({
+        ...item,
+        endTick: Math.max(item.endTick, item.startTick + minimumTicks),
+      })),
+    )
+    .sort((a, b) => averagePitch(b) - averagePitch(a));
+}
 
-    offset += eventType === 0xc0 || eventType === 0xd0 ? 1 : 2;
+function detectSwing(onsets: number[], ticksPerBeat: number) {
+  const fractions = onsets.map((tick) => (tick / ticksPerBeat) % 1);
+  const near = (target: number) =>
+    fractions.filter((fraction) => Math.abs(fraction - target) < 0.05).length;
+  const swung = fractions
+    .filter((fraction) => fraction > 0.58 && fraction < 0.75)
+    .sort((a, b) => a - b);
+  if (
+    swung.length < 4 ||
+    swung.length < near(0.5) * 2 ||
+    near(1 / 3) * 4 > swung.length
+  ) {
+    return null;
   }
+  return swung[Math.floor(swung.length / 2)];
+}
 
-  return { program, volume, noteEvents, tempo };
+function unswingTick(tick: number, ticksPerBeat: number, swing: number) {
+  const beat = Math.floor(tick / ticksPerBeat);
+  const fraction = tick / ticksPerBeat - beat;
+  const straight =
+    fraction <= swing
+      ? (fraction * 0.5) / swing
+      : 0.5 + ((fraction - swing) * 0.5) / (1 - swing);
+  return Math.round((beat + straight) * ticksPerBeat);
 }
 
-function parseMidiBuffer(midiBuffer: Buffer): ParsedMidiData {
-  const data = new Uint8Array(midiBuffer);
-  let offset = 0;
+function chooseGrid(onsets: number[], ticksPerBeat: number) {
+  let best = "1/16";
+  let bestScore = Number.POSITIVE_INFINITY;
+  for (const [grid, divisions] of Object.entries(GRID_DIVISIONS)) {
+    const gridTicks = ticksPerBeat / divisions;
+    const error =
+      onsets.reduce(
+        (sum, tick) =>
+          sum + Math.abs(tick - Math.round(tick / gridTicks) * gridTicks),
+        0,
+      ) /
+      Math.max(1, onsets.length) /
+      ticksPerBeat;
+    const score = error + divisions * 0.01;
+    if (score < bestScore) {
+      best = grid;
+      bestScore = score;
+    }
+  }
+  return best;
+}
 
-  const headerChunk = data.subarray(offset, offset + 4);
-  if (String.fromCharCode(...headerChunk) !== "MThd") {
-    throw new Error("MIDI 文件头无效");
+function beatOf(tick: number, ticksPerBeat: number) {
+  return Math.floor(tick / ticksPerBeat + 1 / 24);
+}
+
+function chooseBeatGrids(onsets: number[], ticksPerBeat: number) {
+  const offsets = new Map<number, number[]>();
+  for (const tick of onsets) {
+    const beat = beatOf(tick, ticksPerBeat);
+    offsets.set(beat, [
+      ...(offsets.get(beat) ?? []),
+      tick - beat * ticksPerBeat,
+    ]);
   }
-  offset += 4;
-  const headerLength = readUInt32BE(data, offset);
-  offset += 4;
-  const format = (data[offset] << 8) | data[offset + 1];
-  const numTracks = (data[offset + 2] << 8) | data[offset + 3];
-  const ticksPerBeat = (data[offset + 4] << 8) | data[offset + 5];
-  offset += headerLength;
+  const grids = new Map<number, string>();
+  for (const [beat, beatOffsets] of offsets) {
+    grids.set(beat, chooseGrid(beatOffsets, ticksPerBeat));
+  }
+  return grids;
+}
 
-  if (numTracks < 1) {
-    throw new Error("MIDI 轨道数量无效");
+function normalizeNoteEvents(
+  noteEvents: MidiNoteEvent[],
+  ticksPerBeat: number,
+  requestedGrid = "auto",
+) {
+  if (requestedGrid !== "auto" && GRID_DIVISIONS[requestedGrid] === undefined) {
+    throw new Error(
+      `无效的量化网格: ${requestedGrid}，可选 auto、${Object.keys(GRID_DIVISIONS).join("、")}`,
+    );
   }
 
-  const tracks: ParsedMidiTrack[] = [];
-  let tempo = 500000;
+  const clusters = clusterOnsets(noteEvents, ticksPerBeat / 12);
+  const rawOnsets = clusters.map((cluster) => cluster[0].startTick);
+  const swing = detectSwing(rawOnsets, ticksPerBeat);
+  const placeTick = (tick: number) =>
+    swing === null ? tick : unswingTick(tick, ticksPerBeat, swing);
+  const onsets = rawOnsets.map(placeTick);
+  const beatGrids =
+    requestedGrid === "auto" ? chooseBeatGrids(onsets, ticksPerBeat) : null;
+  const gridAt = (beat: number) =>
+    beatGrids ? beatGrids.get(beat) ?? "1/4" : requestedGrid;
+  const snap = (tick: number, release = false) => {
+    const beat = beatOf(tick, ticksPerBeat);
+    const gridTicks = ticksPerBeat / GRID_DIVISIONS[gridAt(beat)];
+    const step = release ? Math.min(gridTicks, ticksPerBeat / 2) : gridTicks;
+    const beatStart = beat * ticksPerBeat;
+    return {
+      tick: beatStart + Math.round((tick - beatStart) / step) * step,
+      step,
+    };
+  };
 
-  for (let trackIndex = 0; trackIndex < numTracks; trackIndex += 1) {
-    const trackHeader = data.subarray(offset, offset + 4);
-    if (String.fromCharCode(...trackHeader) !== "MTrk") {
-      throw new Error("MIDI 轨道头无效");
-    }
-    offset += 4;
-    const trackLength = readUInt32BE(data, offset);
-    offset += 4;
+  const snapped = new Map<number, MidiNoteEvent[]>();
+  for (const [index, cluster] of clusters.entries()) {
+    const start = snap(onsets[index]).tick;
+    snapped.set(start, [...(snapped.get(start) ?? []), ...cluster]);
+  }
 
-    const parsed = parseMidiTrack(data, offset, trackLength, tempo);
-    if (trackIndex === 0) {
-      tempo = parsed.tempo;
+  const starts = Array.from(snapped.keys()).sort((a, b) => a - b);
+  const normalized: MidiNoteEvent[] = [];
+  for (const [index, start] of starts.entries()) {
+    const cluster = snapped.get(start) ?? [];
+    const nextStart = starts[index + 1] ?? Number.POSITIVE_INFINITY;
+    const release = snap(
+      placeTick(Math.max(...cluster.map((item) => item.endTick))),
+      true,
+    );
+    const end = Math.min(
+      nextStart,
+      release.tick > start ? release.tick : start + snap(start).step,
+    );
+    const seen = new Set<number>();
+    for (const noteEvent of cluster) {
+      if (seen.has(noteEvent.note)) {
+        continue;
+      }
+      seen.add(noteEvent.note);
+      normalized.push({ ...noteEvent, startTick: start, endTick: end });
     }
-    tracks.push({
-      program: parsed.program,
-      volume: parsed.volume,
-      noteEvents: parsed.noteEvents,
-    });
-
-    offset += trackLength;
   }
 
+  const grids = beatGrids
+    ? Object.keys(GRID_DIVISIONS).filter((grid) =>
+        Array.from(beatGrids.values()).includes(grid),
+      )
+    : [requestedGrid];
   return {
-    ticksPerBeat,
-    tempo,
-    tracks,
+    noteEvents: normalized,
+    gridBeats: 1 / 12,
+    quantize: {
+      grid: grids.join("+") || "1/4",
+      swing: swing === null ? null : Math.round(swing * 100) / 100,
+    },
   };
 }
 
-function normalizeNoteEvents(
-  noteEvents: MidiNoteEvent[],
-  _ticksPerBeat: number,
-) {
-  return noteEvents;
+function markAccents(events: ScoreEvent[]) {
+  const sounding = events.filter((event) => event.velocity !== undefined);
+  const accented = sounding.map((event, index) => {
+    const neighbours = [sounding[index - 1], sounding[index + 1]]
+      .filter((item): item is ScoreEvent => item !== undefined)
+      .map((item) => item.velocity ?? 0);
+    if (neighbours.length === 0) {
+      return null;
+    }
+    const loudestNeighbour = Math.max(...neighbours);
+    return (event.velocity ?? 0) - loudestNeighbour >= 16 ? loudestNeighbour : null;
+  });
+  sounding.forEach((event, index) => {
+    const baseVelocity = accented[index];
+    if (baseVelocity !== null) {
+      event.accent = true;
+      event.velocity = baseVelocity;
+    }
+  });
 }
 
 function buildScoreFromNoteEvents(
   noteEvents: MidiNoteEvent[],
-  header: ScoreHeader,
+  baseHeader: ScoreHeader,
   ticksPerBeat: number,
-) {
+  lyrics: MidiLyric[] = [],
+  grid = "auto",
+): ParsedScore {
   const events: ScoreEvent[] = [];
+  const header = {
+    ...baseHeader,
+    octave: chooseReferenceOctave(
+      noteEvents.map((noteEvent) => noteEvent.note),
+      baseHeader,
+    ),
+  };
+  const pendingLyrics = [...lyrics].sort((a, b) => a.tick - b.tick);
+  const lyricTolerance = ticksPerBeat / 8;
 
-  const normalizedEvents = normalizeNoteEvents(noteEvents, ticksPerBeat);
+  const {
+    noteEvents: normalizedEvents,
+    gridBeats,
+    quantize,
+  } = normalizeNoteEvents(noteEvents, ticksPerBeat, grid);
   const grouped = new Map<string, MidiNoteEvent[]>();
   for (const noteEvent of normalizedEvents) {
     const key = `${noteEvent.startTick}-${noteEvent.endTick}`;
@@ -764,10 +4114,11 @@ function buildScoreFromNoteEvents(
   let currentTick = 0;
   let totalBeats = 0;
 
-  for (const timePoint of timePoints) {
+  for (const [index, timePoint] of timePoints.entries()) {
     if (timePoint.startTick > currentTick) {
       const restBeats = quantizeBeats(
         (timePoint.startTick - currentTick) / ticksPerBeat,
+        gridBeats,
       );
       events.push({ type: "rest", durationBeats: restBeats, notes: [] });
       totalBeats += restBeats;
@@ -776,76 +4127,531 @@ function buildScoreFromNoteEvents(
 
     const groupKey = `${timePoint.startTick}-${timePoint.endTick}`;
     const notes = grouped.get(groupKey) ?? [];
+    const nextStart = timePoints[index + 1]?.startTick;
+    const soundingTicks = timePoint.endTick - timePoint.startTick;
+    const onsetTicks =
+      nextStart !== undefined ? nextStart - timePoint.startTick : 0;
+    const isStaccato =
+      nextStart !== undefined &&
+      nextStart > timePoint.endTick &&
+      onsetTicks <= ticksPerBeat * 2 &&
+      soundingTicks <= onsetTicks * 0.6;
+    const absorbsGap =
+      nextStart !== undefined &&
+      nextStart >= timePoint.endTick &&
+      (isStaccato || nextStart - timePoint.endTick < ticksPerBeat / 4);
     const durationBeats = quantizeBeats(
-      (timePoint.endTick - timePoint.startTick) / ticksPerBeat,
+      (absorbsGap ? onsetTicks : soundingTicks) / ticksPerBeat,
+      gridBeats,
     );
     const noteSpecs = notes
       .sort((a, b) => a.note - b.note)
       .map((noteEvent) => midiNoteToSpec(noteEvent.note, header));
 
+    while (
+      pendingLyrics.length > 0 &&
+      pendingLyrics[0].tick < timePoint.startTick - lyricTolerance
+    ) {
+      pendingLyrics.shift();
+    }
+    const lyric =
+      pendingLyrics.length > 0 &&
+      pendingLyrics[0].tick <= timePoint.startTick + lyricTolerance
+        ? pendingLyrics.shift()?.text.trim()
+        : undefined;
+
     events.push({
       type: noteSpecs.length > 1 ? "chord" : "note",
       durationBeats,
       notes: noteSpecs,
+      velocity: Math.max(...notes.map((noteEvent) => noteEvent.velocity)),
+      ...(isStaccato ? { articulation: "staccato" as const } : {}),
+      ...(lyric ? { lyric } : {}),
     });
     totalBeats += durationBeats;
-    currentTick = timePoint.endTick;
+    currentTick = absorbsGap ? nextStart : timePoint.endTick;
+  }
+
+  markAccents(events);
+
+  return {
+    header,
+    voices: [{ header, events, totalBeats }],
+    totalBeats,
+    quantize,
+  };
+}
+
+function buildDrumScoreFromNoteEvents(
+  noteEvents: MidiNoteEvent[],
+  header: ScoreHeader,
+  ticksPerBeat: number,
+  timeSignatureMap: MidiTimeSignaturePoint[],
+) {
+  const stepTicks = ticksPerBeat * DRUM_STEP_BEATS;
+  const steps = new Map<number, MidiNoteEvent[]>();
+  for (const noteEvent of noteEvents) {
+    const step = Math.round(noteEvent.startTick / stepTicks);
+    const list = steps.get(step) ?? [];
+    list.push(noteEvent);
+    steps.set(step, list);
+  }
+
+  const events: ScoreEvent[] = [];
+  const stepIndexes = Array.from(steps.keys()).sort((a, b) => a - b);
+  if (stepIndexes.length > 0 && stepIndexes[0] > 0) {
+    events.push({
+      type: "rest",
+      durationBeats: stepIndexes[0] * DRUM_STEP_BEATS,
+      notes: [],
+    });
+  }
+  for (const [index, step] of stepIndexes.entries()) {
+    const hits = steps.get(step) ?? [];
+    const drums = Array.from(new Set(hits.map((hit) => hit.note))).sort(
+      (a, b) => a - b,
+    );
+    const nextStep = stepIndexes[index + 1] ?? step + 1;
+    events.push({
+      type: drums.length > 1 ? "chord" : "note",
+      durationBeats: (nextStep - step) * DRUM_STEP_BEATS,
+      notes: [],
+      drums,
+      velocity: Math.max(...hits.map((hit) => hit.velocity)),
+    });
+  }
+  if (stepIndexes.length > 0) {
+    const endTick = (stepIndexes[stepIndexes.length - 1] + 1) * stepTicks;
+    const padSteps = Math.round(
+      (nextBarTick(timeSignatureMap, ticksPerBeat, endTick) - endTick) /
+        stepTicks,
+    );
+    if (padSteps > 0) {
+      events.push({
+        type: "rest",
+        durationBeats: padSteps * DRUM_STEP_BEATS,
+        notes: [],
+      });
+    }
+  }
+
+  markAccents(events);
+
+  const totalBeats = events.reduce(
+    (sum, event) => sum + event.durationBeats,
+    0,
+  );
+  const unknown = Array.from(
+    new Set(noteEvents.map((noteEvent) => noteEvent.note)),
+  )
+    .filter((note) => GM_DRUM_CODES[note] === undefined)
+    .sort((a, b) => a - b);
+  const diagnostics =
+    unknown.length > 0
+      ? [
+          midiWarning(
+            "midi-unknown-drum",
+            `鼓音符 ${unknown.join(", ")} 不在 GM 打击乐表中，` +
+              `已按 ${DEFAULT_DRUM_CODE} 记谱`,
+          ),
+        ]
+      : [];
+  return {
+    header,
+    voices: [{ header, events, totalBeats }],
+    totalBeats,
+    diagnostics,
+  };
+}
+
+function barStartTick(
+  timeSignatureMap: MidiTimeSignaturePoint[],
+  ticksPerBeat: number,
+  bar: number,
+) {
+  let tick = 0;
+  let index = 0;
+  for (let current = 1; current < bar; current += 1) {
+    while (
+      index + 1 < timeSignatureMap.length &&
+      timeSignatureMap[index + 1].tick <= tick
+    ) {
+      index += 1;
+    }
+    tick += barLengthBeats(timeSignatureMap[index].time) * ticksPerBeat;
+  }
+  return tick;
+}
+
+function nextBarTick(
+  timeSignatureMap: MidiTimeSignaturePoint[],
+  ticksPerBeat: number,
+  tick: number,
+) {
+  let barTick = 0;
+  let index = 0;
+  while (barTick < tick - 0.5) {
+    while (
+      index + 1 < timeSignatureMap.length &&
+      timeSignatureMap[index + 1].tick <= barTick
+    ) {
+      index += 1;
+    }
+    barTick += barLengthBeats(timeSignatureMap[index].time) * ticksPerBeat;
   }
+  return barTick;
+}
+
+function secondsToTick(
+  tempoMap: MidiTempoPoint[],
+  ticksPerBeat: number,
+  seconds: number,
+) {
+  let elapsed = 0;
+  for (let index = 0; index < tempoMap.length; index += 1) {
+    const point = tempoMap[index];
+    const next = tempoMap[index + 1];
+    const secondsPerTick = point.tempo / 1000000 / ticksPerBeat;
+    const span = next ? (next.tick - point.tick) * secondsPerTick : Infinity;
+    if (elapsed + span >= seconds) {
+      return point.tick + (seconds - elapsed) / secondsPerTick;
+    }
+    elapsed += span;
+  }
+  return 0;
+}
+
+function excerptTicks(
+  options: MidiImportOptions,
+  tempoMap: MidiTempoPoint[],
+  timeSignatureMap: MidiTimeSignaturePoint[],
+  ticksPerBeat: number,
+) {
+  if (options.bars) {
+    const [first, last] = options.bars;
+    if (!Number.isInteger(first) || !Number.isInteger(last)) {
+      throw new Error("无效的小节范围");
+    }
+    if (first < 1 || last < first || last > MAX_MIDI_BEATS) {
+      throw new Error("无效的小节范围");
+    }
+    return {
+      startTick: barStartTick(timeSignatureMap, ticksPerBeat, first),
+      endTick: barStartTick(timeSignatureMap, ticksPerBeat, last + 1),
+    };
+  }
+  if (options.seconds) {
+    const [from, to] = options.seconds;
+    if (
+      !Number.isFinite(from) ||
+      !Number.isFinite(to) ||
+      from < 0 ||
+      to <= from
+    ) {
+      throw new Error("无效的时间范围");
+    }
+    const startTick = secondsToTick(tempoMap, ticksPerBeat, from);
+    const endTick = secondsToTick(tempoMap, ticksPerBeat, to);
+    return {
+      startTick: Math.floor(startTick / ticksPerBeat + 0.0001) * ticksPerBeat,
+      endTick: Math.ceil(endTick / ticksPerBeat - 0.0001) * ticksPerBeat,
+    };
+  }
+  return null;
+}
 
-  return { header, events, totalBeats };
+function excerptTimeline<T extends { tick: number }>(
+  points: T[],
+  startTick: number,
+  endTick: number,
+) {
+  const initial =
+    [...points].reverse().find((point) => point.tick <= startTick) ??
+    points[0];
+  return [
+    { ...initial, tick: 0 },
+    ...points
+      .filter((point) => point.tick > startTick && point.tick < endTick)
+      .map((point) => ({ ...point, tick: point.tick - startTick })),
+  ];
+}
+
+function excerptTrack(
+  track: ParsedMidiTrack,
+  startTick: number,
+  endTick: number,
+): ParsedMidiTrack {
+  return {
+    ...track,
+    noteEvents: track.noteEvents
+      .filter(
+        (noteEvent) =>
+          noteEvent.endTick > startTick && noteEvent.startTick < endTick,
+      )
+      .map((noteEvent) => ({
+        ...noteEvent,
+        startTick: Math.max(noteEvent.startTick, startTick) - startTick,
+        endTick: Math.min(noteEvent.endTick, endTick) - startTick,
+      })),
+    lyrics: track.lyrics
+      .filter((lyric) => lyric.tick >= startTick && lyric.tick < endTick)
+      .map((lyric) => ({ ...lyric, tick: lyric.tick - startTick })),
+  };
+}
+
+function matchesTrack(
+  track: ParsedMidiTrack,
+  index: number,
+  selectors: (number | string)[],
+) {
+  return selectors.some((selector) => {
+    if (typeof selector === "number") {
+      return selector === index;
+    }
+    const wanted = selector.trim().toLowerCase();
+    return [track.name, track.instrumentName].some(
+      (name) => name !== null && name.toLowerCase() === wanted,
+    );
+  });
+}
+
+function midiTrackInfo(
+  track: ParsedMidiTrack,
+  index: number,
+  noteEvents: MidiNoteEvent[],
+): MidiTrackInfo {
+  const pitchRange = noteEvents.reduce<MidiTrackInfo["pitchRange"]>(
+    (range, noteEvent) => ({
+      low: Math.min(range?.low ?? noteEvent.note, noteEvent.note),
+      high: Math.max(range?.high ?? noteEvent.note, noteEvent.note),
+    }),
+    null,
+  );
+  return {
+    track: index,
+    name: track.name,
+    instrumentName: track.instrumentName,
+    noteCount: noteEvents.length,
+    pitchRange,
+  };
 }
 
-export function midiToScores(midiBuffer: Buffer): ParsedScore[] {
-  const { ticksPerBeat, tempo, tracks } = parseMidiBuffer(midiBuffer);
-  const bpm = Math.max(30, Math.round(60000000 / tempo));
+export function midiToScores(
+  midiBuffer: Buffer,
+  options: MidiImportOptions = {},
+): ParsedScore[] {
+  const grid = options.grid?.trim().toLowerCase() || "auto";
+  const parsed = parseMidiBuffer(midiBuffer);
+  const { ticksPerBeat, warnings } = parsed;
+  const range = excerptTicks(
+    options,
+    parsed.tempoMap,
+    parsed.timeSignatureMap,
+    ticksPerBeat,
+  );
+  const tempoMap = range
+    ? excerptTimeline(parsed.tempoMap, range.startTick, range.endTick)
+    : parsed.tempoMap;
+  const timeSignatureMap = range
+    ? excerptTimeline(parsed.timeSignatureMap, range.startTick, range.endTick)
+    : parsed.timeSignatureMap;
+  const bpm = tempoToBpm(tempoMap[0].tempo);
+  const changePoints = headerChangePoints(
+    tempoMap,
+    timeSignatureMap,
+    ticksPerBeat,
+  );
+  const withChanges = (score: ParsedScore): ParsedScore => ({
+    ...score,
+    voices: score.voices.map((voice) => ({
+      ...voice,
+      events: insertHeaderChanges(voice.events, changePoints),
+    })),
+  });
+  const fileKeySignature =
+    parsed.tracks.find((track) => track.keySignature)?.keySignature ?? null;
+
+  const selectors = options.tracks ?? [];
+  const tracks = parsed.tracks
+    .map((track, index) => ({
+      index,
+      track: range
+        ? excerptTrack(track, range.startTick, range.endTick)
+        : track,
+    }))
+    .filter(
+      ({ track, index }) =>
+        selectors.length === 0 || matchesTrack(track, index, selectors),
+    );
+  if (tracks.length === 0) {
+    throw new Error(`没有匹配的轨道: ${selectors.join(", ")}`);
+  }
+
+  const scores = tracks.flatMap(({ track, index: trackIndex }) => {
+    if (options.skipEmpty && track.noteEvents.length === 0) {
+      return [];
+    }
+    const channels = Array.from(
+      new Set(track.noteEvents.map((noteEvent) => noteEvent.channel)),
+    ).sort((x, y) => x - y);
+    if (channels.length === 0) {
+      return [
+        {
+          ...withChanges(
+            buildScoreFromNoteEvents(
+              [],
+              {
+                ...DEFAULT_HEADER,
+                ...(track.keySignature ?? fileKeySignature),
+                bpm,
+                volume: track.volumes[0],
+                program: track.programs[0],
+                time: timeSignatureMap[0].time,
+              },
+              ticksPerBeat,
+            ),
+          ),
+          midiTrack: midiTrackInfo(track, trackIndex, []),
+        },
+      ];
+    }
 
-  return tracks.map((track) =>
-    buildScoreFromNoteEvents(
-      track.noteEvents,
-      {
-        key: "C",
+    return channels.flatMap((channel): ParsedScore[] => {
+      const channelNotes = track.noteEvents.filter(
+        (noteEvent) => noteEvent.channel === channel,
+      );
+      const keyDetection = detectKey(
+        channel === DRUM_CHANNEL ? [] : channelNotes,
+        track.keySignature ?? fileKeySignature,
+      );
+      const header: ScoreHeader = {
+        ...DEFAULT_HEADER,
+        key: keyDetection.key,
+        mode: keyDetection.mode,
         bpm,
-        volume: track.volume,
+        volume: track.volumes[channel],
         octave: 4,
-        program: track.program,
-      },
-      ticksPerBeat,
-    ),
-  );
+        program: track.programs[channel],
+        time: timeSignatureMap[0].time,
+      };
+
+      if (channel === DRUM_CHANNEL) {
+        return [
+          {
+            ...withChanges(
+              buildDrumScoreFromNoteEvents(
+                channelNotes,
+                { ...header, kind: "drums", program: 0 },
+                ticksPerBeat,
+                timeSignatureMap,
+              ),
+            ),
+            channel,
+            midiTrack: midiTrackInfo(track, trackIndex, channelNotes),
+          },
+        ];
+      }
+
+      const voices = separateVoices(
+        channelNotes.map((noteEvent) => ({ ...noteEvent })),
+        ticksPerBeat,
+      );
+      return voices.map((voiceNotes, index) => ({
+        ...withChanges(
+          buildScoreFromNoteEvents(
+            voiceNotes,
+            header,
+            ticksPerBeat,
+            index === 0 && channel === channels[0] ? track.lyrics : [],
+            grid,
+          ),
+        ),
+        keyDetection,
+        channel,
+        midiTrack: midiTrackInfo(track, trackIndex, voiceNotes),
+      }));
+    });
+  });
+  if (warnings.length > 0 && scores.length > 0) {
+    scores[0] = {
+      ...scores[0],
+      diagnostics: [...(scores[0].diagnostics ?? []), ...warnings],
+    };
+  }
+  return scores;
 }
 
-export function midiToScore(midiBuffer: Buffer): ParsedScore {
-  const scores = midiToScores(midiBuffer);
-  return scores[0] ?? {
-    header: { key: "C", bpm: 120, volume: 0.8, octave: 4, program: 0 },
-    events: [],
+function emptyScore(): ParsedScore {
+  return {
+    header: { ...DEFAULT_HEADER },
+    voices: [createVoice(DEFAULT_HEADER)],
     totalBeats: 0,
   };
 }
 
-export function midiToText(midiBuffer: Buffer) {
-  const scores = midiToScores(midiBuffer);
+export function midiToScore(
+  midiBuffer: Buffer,
+  options: MidiImportOptions = {},
+): ParsedScore {
+  const scores = midiToScores(midiBuffer, options);
+  return scores[0] ?? emptyScore();
+}
+
+export function midiToText(
+  midiBuffer: Buffer,
+  options: MidiImportOptions = {},
+) {
+  const scores = midiToScores(midiBuffer, options);
+  const textOptions = { compressRepeats: true, notation: options.notation };
   if (scores.length <= 1) {
-    return scoreToText(scores[0]);
+    return scoreToText(scores[0] ?? emptyScore(), textOptions);
   }
   return scores
-    .map((score, index) => `// Track ${index + 1}\n${scoreToText(score)}`)
+    .map(
+      (score, index) =>
+        `// Track ${index + 1}\n${scoreToText(score, textOptions)}`,
+    )
     .join("\n\n");
 }
 
-export function midiToTexts(midiBuffer: Buffer) {
-  const scores = midiToScores(midiBuffer);
+export function midiToTexts(
+  midiBuffer: Buffer,
+  options: MidiImportOptions = {},
+) {
+  const scores = midiToScores(midiBuffer, options);
   const tracks = scores.map((score, index) => ({
     index,
-    text: scoreToText(score),
+    text: scoreToText(score, {
+      compressRepeats: true,
+      notation: options.notation,
+    }),
+    quantize: score.quantize ?? null,
+    key: score.keyDetection ?? null,
+    channel: score.channel ?? null,
+    track: score.midiTrack?.track ?? null,
+    name: score.midiTrack?.name ?? null,
+    instrumentName: score.midiTrack?.instrumentName ?? null,
+    noteCount: score.midiTrack?.noteCount ?? 0,
+    pitchRange: score.midiTrack?.pitchRange ?? null,
   }));
+  const timeline = scores.find((score) => score.voices[0]?.events.length);
+  const tempoMap = timeline ? buildTempoMap(timeline) : [];
+  const timeSignatureMap = timeline ? buildTimeSignatureMap(timeline) : [];
   const combinedText =
     tracks.length <= 1
       ? tracks[0]?.text ?? ""
       : tracks
-          .map((track) => `// Track ${track.index + 1}\n${track.text}`)
+          .map((track) => {
+            const label = track.name ? ` ${track.name}` : "";
+            return `// Track ${track.index + 1}${label}\n${track.text}`;
+          })
           .join("\n\n");
-  return { combinedText, tracks };
+  const warnings = scores.flatMap((score) =>
+    (score.diagnostics ?? [])
+      .filter((diagnostic) => diagnostic.severity === "warning")
+      .map((diagnostic) => diagnostic.message),
+  );
+  return { combinedText, tracks, tempoMap, timeSignatureMap, warnings };
 }
 
 function encodeWav(samples: Float32Array[], sampleRate: number) {
@@ -930,9 +4736,7 @@ export async function renderMidiToAudio(options: {
   const blockSize = 4096;
   const totalSamples = Math.max(1, Math.ceil(options.durationSeconds * sampleRate));
 
-  const soundfontPath =
-    options.soundfontPath ??
-    path.join(process.cwd(), "public", "piano.sf2");
+  const soundfontPath = options.soundfontPath ?? defaultSoundfontPath();
 
   const soundfontData = await fs.readFile(soundfontPath);
   await ensureSynthReady();
@@ -976,7 +4780,11 @@ export async function renderMidiToAudio(options: {
 export async function persistScoreMedia(
   score: ParsedScore,
   format: "wav" | "mp3",
+  soundfont?: string,
 ) {
+  const soundfontPath = await resolveSoundfontPath(
+    soundfont || score.header.font,
+  );
   const outputDir = path.join(process.cwd(), ".media");
   await fs.mkdir(outputDir, { recursive: true });
 
@@ -985,13 +4793,15 @@ export async function persistScoreMedia(
   const midiPath = path.join(outputDir, `${id}.mid`);
   await fs.writeFile(midiPath, midiBuffer);
 
-  const durationSeconds = score.totalBeats * (60 / score.header.bpm) + 1;
+  const durationSeconds =
+    beatsToSeconds(buildTempoMap(score), score.totalBeats) + 1;
   const audioBuffer = await renderMidiToAudio({
     midiData: midiBuffer,
     durationSeconds,
     program: score.header.program,
     volume: score.header.volume,
     format,
+    soundfontPath,
   });
 
   const audioPath = path.join(outputDir, `${id}.${format}`);
@@ -0,0 +1,48 @@
+import { describe, expect, it } from "vitest";
+import { parseScore, scoreToText } from "./music";
+import { musicXmlToScores, scoreToMusicXml } from "./musicxml";
+
+function roundTrip(text: string) {
+  const xml = scoreToMusicXml(parseScore(text));
+  const [score] = musicXmlToScores(xml);
+  return { xml, text: scoreToText(score) };
+}
+
+describe("musicxml round trip", () => {
+  it("ties notes across bar lines", () => {
+    const source = "[Key=C Time=4/4] 1 2 3 4& | 4 5 6~ |";
+    const result = roundTrip(source);
+    expect(result.xml).toContain('<tie type="start"/>');
+    expect(result.xml).toContain('<tie type="stop"/>');
+    expect(result.text).toBe(scoreToText(parseScore(source)));
+  });
+
+  it("keeps a tempo change inside a tied note", () => {
+    const source = "[Key=C Time=3/4] 1~& [BPM=90] 1 | 2 3~ |";
+    expect(roundTrip(source).text).toContain("1~& [BPM=90] 1 | 2 3~ |");
+  });
+
+  it("keeps tuplets", () => {
+    const source =
+      "[Key=F Time=4/4] {3: 1 2 3} 4 5/ 6/ | 7 {3: 1/ 2/ 3/} 4. 5/ |";
+    const result = roundTrip(source);
+    expect(result.xml).toContain("<actual-notes>3</actual-notes>");
+    expect(result.text).toBe(scoreToText(parseScore(source)));
+  });
+
+  it("keeps dynamics", () => {
+    const source = "[Key=C Time=4/4] p 1 2 f 3 4 | ff 5~~~ |";
+    const result = roundTrip(source);
+    expect(result.xml).toContain("<dynamics><p/></dynamics>");
+    expect(result.text).toContain("p 1 2 f 3 4 | ff 5~~~ |");
+  });
+
+  it("keeps lyrics and syllables", () => {
+    const source =
+      '[Key=C Time=4/4] 1"hel-" 2"lo" 3"world" 4 | 5"你" 6"好" 0~ |';
+    const result = roundTrip(source);
+    expect(result.xml).toContain("<syllabic>begin</syllabic><text>hel</text>");
+    expect(result.xml).toContain("<syllabic>end</syllabic><text>lo</text>");
+    expect(result.text).toBe(scoreToText(parseScore(source)));
+  });
+});
@@ -0,0 +1,1445 @@
+import zlib from "node:zlib";
+import { GM_INSTRUMENTS } from "./instruments";
+import type {
+  NoteSpec,
+  ParsedScore,
+  ScoreEvent,
+  ScoreHeader,
+  ScoreVoice,
+} from "./music";
+import {
+  DEFAULT_HEADER,
+  DYNAMIC_VELOCITIES,
+  STEP_OFFSETS,
+  barLengthBeats,
+  degreeToMidi,
+  keySignatureSharps,
+  keySignatureToHeader,
+  midiNoteToSpec,
+  nearestDynamic,
+  parseTimeSignature,
+  scoreToText,
+} from "./music";
+
+const MAX_MUSICXML_BYTES = 16 * 1024 * 1024;
+
+const STEP_NAMES = ["C", "D", "E", "F", "G", "A", "B"];
+
+const NOTE_TYPES: [string, number][] = [
+  ["whole", 4],
+  ["half", 2],
+  ["quarter", 1],
+  ["eighth", 0.5],
+  ["16th", 0.25],
+  ["32nd", 0.125],
+  ["64th", 0.0625],
+];
+
+const TUPLET_RATIOS: [number, number][] = [
+  [3, 2],
+  [5, 4],
+  [6, 4],
+  [7, 4],
+];
+
+const XML_ENTITIES: Record<string, string> = {
+  lt: "<",
+  gt: ">",
+  amp: "&",
+  quot: '"',
+  apos: "'",
+};
+
+const DRUM_DISPLAY: Record<number, string> = {
+  35: "F4",
+  36: "F4",
+  37: "C5",
+  38: "C5",
+  39: "D5",
+  40: "C5",
+  41: "A4",
+  42: "G5",
+  43: "A4",
+  44: "D4",
+  45: "B4",
+  46: "G5",
+  47: "D5",
+  48: "E5",
+  49: "A5",
+  50: "E5",
+  51: "F5",
+  53: "F5",
+  56: "E5",
+  57: "A5",
+  59: "F5",
+};
+
+const EPSILON = 0.0001;
+
+type XmlElement = {
+  name: string;
+  attributes: Record<string, string>;
+  children: XmlElement[];
+  text: string;
+};
+
+type ZipEntry = {
+  method: number;
+  compressedSize: number;
+  localOffset: number;
+};
+
+type PartInfo = {
+  name: string;
+  program: number;
+  volume: number;
+  percussion: boolean;
+  drums: Map<string, number>;
+};
+
+type PartNote = {
+  onset: number;
+  durationBeats: number;
+  pitch: number;
+  tieOpen: boolean;
+  graces: number[];
+  lyric?: string;
+  velocity?: number;
+  accent?: boolean;
+  articulation?: ScoreEvent["articulation"];
+  ornament?: ScoreEvent["ornament"];
+};
+
+type PartChange = {
+  beat: number;
+  changes: Partial<ScoreHeader>;
+};
+
+type NoteValue = {
+  beats: number;
+  type: string;
+  dots: number;
+  tuplet?: [number, number];
+};
+
+function decodeEntities(text: string) {
+  return text.replace(/&(#x[0-9a-f]+|#\d+|[a-z]+);/gi, (match, entity) => {
+    if (entity[0] !== "#") {
+      return XML_ENTITIES[entity] ?? match;
+    }
+    const code =
+      entity[1].toLowerCase() === "x"
+        ? parseInt(entity.slice(2), 16)
+        : parseInt(entity.slice(1), 10);
+    return code <= 0x10ffff ? String.fromCodePoint(code) : match;
+  });
+}
+
+function skipPast(source: string, start: number, marker: string) {
+  const end = source.indexOf(marker, start);
+  if (end === -1) {
+    throw new Error("MusicXML 文档不完整");
+  }
+  return end + marker.length;
+}
+
+function parseXml(source: string): XmlElement {
+  const root: XmlElement = {
+    name: "#document",
+    attributes: {},
+    children: [],
+    text: "",
+  };
+  const stack = [root];
+  const tagPattern = new RegExp(
+    "<(/?)([A-Za-z_][\\w.:-]*)" +
+      "((?:\\s+[^\\s=/>]+\\s*=\\s*(?:\"[^\"]*\"|'[^']*'))*)\\s*(/?)>",
+    "y",
+  );
+  const attributePattern = /([^\s=]+)\s*=\s*(?:"([^"]*)"|'([^']*)')/g;
+  let index = 0;
+
+  while (index < source.length) {
+    const current = stack[stack.length - 1];
+    const open = source.indexOf("<", index);
+    if (open === -1) {
+      current.text += decodeEntities(source.slice(index));
+      break;
+    }
+    current.text += decodeEntities(source.slice(index, open));
+
+    if (source.startsWith("<!--", open)) {
+      index = skipPast(source, open, "-->");
+      continue;
+    }
+    if (source.startsWith("<![CDATA[", open)) {
+      const end = skipPast(source, open, "]]>");
+      current.text += source.slice(open + 9, end - 3);
+      index = end;
+      continue;
+    }
+    if (source.startsWith("<?", open)) {
+      index = skipPast(source, open, "?>");
+      continue;
+    }
+    if (source.startsWith("<!", open)) {
+      const close = skipPast(source, open, ">");
+      const bracket = source.indexOf("[", open);
+      index =
+        bracket !== -1 && bracket < close
+          ? skipPast(source, bracket, "]>")
+          : close;
+      continue;
+    }
+
+    tagPattern.lastIndex = open;
+    const match = tagPattern.exec(source);
+    if (!match) {
+      throw new Error(`MusicXML 格式错误（位置 ${open}）`);
+    }
+    index = tagPattern.lastIndex;
+    const [, closing, name, attributeText, selfClosing] = match;
+
+    if (closing) {
+      if (stack.length === 1 || current.name !== name) {
+        throw new Error(`MusicXML 标签不匹配: </${name}>`);
+      }
+      stack.pop();
+      continue;
+    }
+
+    const element: XmlElement = {
+      name,
+      attributes: {},
+      children: [],
+      text: "",
+    };
+    for (const attribute of attributeText.matchAll(attributePattern)) {
+      element.attributes[attribute[1]] = decodeEntities(
+        attribute[2] ?? attribute[3],
+      );
+    }
+    current.children.push(element);
+    if (!selfClosing) {
+      stack.push(element);
+    }
+  }
+
+  if (stack.length > 1) {
+    throw new Error("MusicXML 文档不完整");
+  }
+  const [document] = root.children;
+  if (!document) {
+    throw new Error("MusicXML 文档为空");
+  }
+  return document;
+}
+
+function child(element: XmlElement | undefined, name: string) {
+  return element?.children.find((item) => item.name === name);
+}
+
+function childrenNamed(element: XmlElement | undefined, name: string) {
+  return element?.children.filter((item) => item.name === name) ?? [];
+}
+
+function childText(element: XmlElement | undefined, name: string) {
+  return child(element, name)?.text.trim() ?? "";
+}
+
+function childNumber(
+  element: XmlElement | undefined,
+  name: string,
+  fallback: number,
+) {
+  const text = childText(element, name);
+  const value = Number(text);
+  return text && Number.isFinite(value) ? value : fallback;
+}
+
+function readZipEntries(data: Buffer) {
+  let end = -1;
+  const lowest = Math.max(0, data.length - 22 - 65535);
+  for (let offset = data.length - 22; offset >= lowest; offset -= 1) {
+    if (data.readUInt32LE(offset) === 0x06054b50) {
+      end = offset;
+      break;
+    }
+  }
+  if (end === -1) {
+    throw new Error("MXL 压缩包无效");
+  }
+
+  const entries = new Map<string, ZipEntry>();
+  const count = data.readUInt16LE(end + 10);
+  let offset = data.readUInt32LE(end + 16);
+  for (let index = 0; index < count; index += 1) {
+    if (offset + 46 > data.length || data.readUInt32LE(offset) !== 0x02014b50) {
+      throw new Error("MXL 压缩包目录无效");
+    }
+    const nameLength = data.readUInt16LE(offset + 28);
+    const name = data.toString("utf8", offset + 46, offset + 46 + nameLength);
+    entries.set(name, {
+      method: data.readUInt16LE(offset + 10),
+      compressedSize: data.readUInt32LE(offset + 20),
+      localOffset: data.readUInt32LE(offset + 42),
+    });
+    offset +=
+      46 +
+      nameLength +
+      data.readUInt16LE(offset + 30) +
+      data.readUInt16LE(offset + 32);
+  }
+  return entries;
+}
+
+function readZipEntry(data: Buffer, entry: ZipEntry) {
+  const offset = entry.localOffset;
+  if (offset + 30 > data.length || data.readUInt32LE(offset) !== 0x04034b50) {
+    throw new Error("MXL 压缩包条目无效");
+  }
+  const start =
+    offset +
+    30 +
+    data.readUInt16LE(offset + 26) +
+    data.readUInt16LE(offset + 28);
+  const raw = data.subarray(start, start + entry.compressedSize);
+  if (raw.length < entry.compressedSize) {
+    throw new Error("MXL 压缩包数据不完整");
+  }
+  if (entry.method === 0) {
+    return raw;
+  }
+  if (entry.method !== 8) {
+    throw new Error(`不支持的 MXL 压缩方式 ${entry.method}`);
+  }
+  try {
+    return zlib.inflateRawSync(raw, { maxOutputLength: MAX_MUSICXML_BYTES });
+  } catch {
+    throw new Error("MXL 解压失败或乐谱文件过大");
+  }
+}
+
+function unpackMxl(data: Buffer) {
+  const entries = readZipEntries(data);
+  const container = entries.get("META-INF/container.xml");
+  let rootPath = "";
+  if (container) {
+    const document = parseXml(readZipEntry(data, container).toString("utf8"));
+    const rootfiles = childrenNamed(child(document, "rootfiles"), "rootfile");
+    const rootfile =
+      rootfiles.find((item) => {
+        const mediaType = item.attributes["media-type"];
+        return !mediaType || mediaType.includes("musicxml");
+      }) ?? rootfiles[0];
+    rootPath = rootfile?.attributes["full-path"] ?? "";
+  }
+  if (!entries.has(rootPath)) {
+    rootPath =
+      Array.from(entries.keys()).find(
+        (name) =>
+          !name.startsWith("META-INF/") && /\.(musicxml|xml)$/i.test(name),
+      ) ?? "";
+  }
+  const entry = entries.get(rootPath);
+  if (!entry) {
+    throw new Error("MXL 压缩包中没有 MusicXML 乐谱");
+  }
+  return decodeText(readZipEntry(data, entry));
+}
+
+function decodeText(data: Buffer) {
+  if (data[0] === 0xff && data[1] === 0xfe) {
+    return data.subarray(2).toString("utf16le");
+  }
+  if (data[0] === 0xfe && data[1] === 0xff) {
+    const swapped = Buffer.from(
+      data.subarray(2, data.length - (data.length % 2)),
+    );
+    return swapped.swap16().toString("utf16le");
+  }
+  return data.toString("utf8").replace(/^\uFEFF/, "");
+}
+
+function readMusicXmlSource(input: Buffer | string) {
+  if (typeof input === "string") {
+    return input;
+  }
+  if (input.length > MAX_MUSICXML_BYTES) {
+    throw new Error(
+      `MusicXML 文件过大（上限 ${MAX_MUSICXML_BYTES / 1024 / 1024} MB）`,
+    );
+  }
+  if (input.subarray(0, 4).toString("binary") === "PK\x03\x04") {
+    return unpackMxl(input);
+  }
+  return decodeText(input);
+}
+
+function readPartList(document: XmlElement) {
+  const parts = new Map<string, PartInfo>();
+  const partList = child(document, "part-list");
+  for (const scorePart of childrenNamed(partList, "score-part")) {
+    const midiInstruments = childrenNamed(scorePart, "midi-instrument");
+    const drums = new Map<string, number>();
+    for (const instrument of midiInstruments) {
+      const unpitched = childNumber(instrument, "midi-unpitched", 0);
+      if (unpitched > 0) {
+        drums.set(instrument.attributes.id ?? "", unpitched - 1);
+      }
+    }
+    const [first] = midiInstruments;
+    parts.set(scorePart.attributes.id ?? "", {
+      name: childText(scorePart, "part-name"),
+      program: Math.min(
+        127,
+        Math.max(0, childNumber(first, "midi-program", 1) - 1),
+      ),
+      volume: Math.min(
+        1,
+        Math.max(0, Math.round(childNumber(first, "volume", 80)) / 100),
+      ),
+      percussion:
+        childNumber(first, "midi-channel", 1) === 10 || drums.size > 0,
+      drums,
+    });
+  }
+  return parts;
+}
+
+function tempoFromDirection(direction: XmlElement) {
+  const sound = child(direction, "sound");
+  const soundTempo = Number(sound?.attributes.tempo);
+  if (soundTempo > 0) {
+    return Math.round(soundTempo);
+  }
+  for (const directionType of childrenNamed(direction, "direction-type")) {
+    const metronome = child(directionType, "metronome");
+    const perMinute = childNumber(metronome, "per-minute", 0);
+    const beatUnit = childText(metronome, "beat-unit");
+    const unit = NOTE_TYPES.find(([type]) => type === beatUnit);
+    if (perMinute > 0 && unit) {
+      const dotted = child(metronome, "beat-unit-dot") ? 1.5 : 1;
+      return Math.round(perMinute * unit[1] * dotted);
+    }
+  }
+  return null;
+}
+
+function dynamicFromDirection(direction: XmlElement) {
+  for (const directionType of childrenNamed(direction, "direction-type")) {
+    for (const mark of child(directionType, "dynamics")?.children ?? []) {
+      if (DYNAMIC_VELOCITIES[mark.name] !== undefined) {
+        return DYNAMIC_VELOCITIES[mark.name];
+      }
+    }
+  }
+  return null;
+}
+
+function lyricText(note: XmlElement) {
+  const lyric = child(note, "lyric");
+  const text = childText(lyric, "text");
+  const syllabic = childText(lyric, "syllabic");
+  return text && (syllabic === "begin" || syllabic === "middle")
+    ? `${text}-`
+    : text;
+}
+
+function noteMarks(note: XmlElement) {
+  const marks: Pick<PartNote, "accent" | "articulation" | "ornament"> = {};
+  for (const notations of childrenNamed(note, "notations")) {
+    for (const item of notations.children) {
+      const names = [item.name, ...item.children.map((inner) => inner.name)];
+      if (
+        names.some((name) =>
+          ["staccato", "staccatissimo", "spiccato"].includes(name),
+        )
+      ) {
+        marks.articulation = "staccato";
+      } else if (names.includes("tenuto")) {
+        marks.articulation = "tenuto";
+      }
+      if (names.some((name) => name === "accent" || name === "strong-accent")) {
+        marks.accent = true;
+      }
+      if (names.includes("trill-mark")) {
+        marks.ornament = "trill";
+      } else if (
+        names.includes("mordent") ||
+        names.includes("inverted-mordent")
+      ) {
+        marks.ornament = "mordent";
+      } else if (
+        (item.name === "glissando" || item.name === "slide") &&
+        item.attributes.type === "start"
+      ) {
+        marks.ornament = "glide";
+      }
+    }
+  }
+  return marks;
+}
+
+function readPart(part: XmlElement, info: PartInfo) {
+  const voices = new Map<string, PartNote[]>();
+  const pendingGraces = new Map<string, number[]>();
+  const changes: PartChange[] = [];
+  let divisions = 1;
+  let transpose = 0;
+  let cursor = 0;
+  let measureStart = 0;
+  let measureEnd = 0;
+  let lastOnset = 0;
+  let velocity: number | undefined;
+
+  const addChange = (changesAt: Partial<ScoreHeader>) => {
+    const last = changes[changes.length - 1];
+    if (last && Math.abs(last.beat - cursor) < EPSILON) {
+      Object.assign(last.changes, changesAt);
+    } else {
+      changes.push({ beat: cursor, changes: { ...changesAt } });
+    }
+  };
+
+  for (const measure of childrenNamed(part, "measure")) {
+    cursor = measureStart;
+    measureEnd = measureStart;
+    for (const element of measure.children) {
+      if (element.name === "attributes") {
+        divisions = childNumber(element, "divisions", divisions) || 1;
+        const key = child(element, "key");
+        if (key && child(key, "fifths")) {
+          const mode = childText(key, "mode");
+          addChange(
+            keySignatureToHeader(
+              childNumber(key, "fifths", 0),
+              mode === "minor" || mode === "aeolian",
+            ),
+          );
+        }
+        const time = child(element, "time");
+        const meter =
+          `${childText(time, "beats")}/${childText(time, "beat-type")}`;
+        if (time && parseTimeSignature(meter)) {
+          addChange({ time: meter });
+        }
+        const transposeElement = child(element, "transpose");
+        if (transposeElement) {
+          transpose =
+            childNumber(transposeElement, "chromatic", 0) +
+            childNumber(transposeElement, "octave-change", 0) * 12;
+        }
+        continue;
+      }
+      if (element.name === "direction" || element.name === "sound") {
+        const tempo =
+          element.name === "sound"
+            ? Math.round(Number(element.attributes.tempo)) || null
+            : tempoFromDirection(element);
+        if (tempo) {
+          addChange({ bpm: tempo });
+        }
+        if (element.name === "direction") {
+          velocity = dynamicFromDirection(element) ?? velocity;
+        }
+        continue;
+      }
+      if (element.name === "backup" || element.name === "forward") {
+        const beats = childNumber(element, "duration", 0) / divisions;
+        cursor += element.name === "backup" ? -beats : beats;
+        measureEnd = Math.max(measureEnd, cursor);
+        continue;
+      }
+      if (element.name !== "note") {
+        continue;
+      }
+
+      const voiceId = childText(element, "voice") || "1";
+      const isGrace = Boolean(child(element, "grace"));
+      const durationBeats = isGrace
+        ? 0
+        : childNumber(element, "duration", 0) / divisions;
+      let onset = cursor;
+      if (child(element, "chord")) {
+        onset = lastOnset;
+      } else if (!isGrace) {
+        lastOnset = cursor;
+        cursor += durationBeats;
+        measureEnd = Math.max(measureEnd, cursor);
+      }
+
+      const pitchElement = child(element, "pitch");
+      const unpitched = child(element, "unpitched");
+      let pitch: number | null = null;
+      if (pitchElement) {
+        const step =
+          STEP_OFFSETS[childText(pitchElement, "step").toUpperCase()];
+        if (step !== undefined) {
+          pitch =
+            (childNumber(pitchElement, "octave", 4) + 1) * 12 +
+            step +
+            Math.round(childNumber(pitchElement, "alter", 0)) +
+            transpose;
+        }
+      } else if (unpitched) {
+        const instrumentId = child(element, "instrument")?.attributes.id ?? "";
+        pitch = info.drums.get(instrumentId) ?? 38;
+      }
+      if (pitch === null || pitch < 0 || pitch > 127) {
+        continue;
+      }
+
+      if (isGrace) {
+        pendingGraces.set(voiceId, [
+          ...(pendingGraces.get(voiceId) ?? []),
+          pitch,
+        ]);
+        continue;
+      }
+
+      const notes = voices.get(voiceId) ?? [];
+      voices.set(voiceId, notes);
+      const ties = childrenNamed(element, "tie").map(
+        (tie) => tie.attributes.type,
+      );
+      if (ties.includes("stop")) {
+        const tied = notes.findLast(
+          (note) =>
+            note.tieOpen &&
+            note.pitch === pitch &&
+            Math.abs(note.onset + note.durationBeats - onset) < EPSILON,
+        );
+        if (tied) {
+          tied.durationBeats += durationBeats;
+          tied.tieOpen = ties.includes("start");
+          continue;
+        }
+      }
+
+      const lyric = lyricText(element);
+      notes.push({
+        onset,
+        durationBeats,
+        pitch,
+        tieOpen: ties.includes("start"),
+        graces: pendingGraces.get(voiceId) ?? [],
+        ...(lyric ? { lyric } : {}),
+        ...(velocity !== undefined ? { velocity } : {}),
+        ...noteMarks(element),
+      });
+      pendingGraces.delete(voiceId);
+    }
+    measureStart = measureEnd;
+  }
+
+  return { voices, changes, totalBeats: measureStart };
+}
+
+function referenceOctave(pitches: number[], header: ScoreHeader) {
+  if (pitches.length === 0) {
+    return DEFAULT_HEADER.octave;
+  }
+  const average =
+    pitches.reduce((sum, pitch) => sum + pitch, 0) / pitches.length;
+  const tonic = degreeToMidi(1, 0, 0, { ...header, octave: -1 });
+  return Math.min(7, Math.max(1, Math.floor((average - tonic) / 12) - 1));
+}
+
+function buildVoice(
+  notes: PartNote[],
+  changes: PartChange[],
+  baseHeader: ScoreHeader,
+  percussion: boolean,
+  totalBeats: number,
+): ScoreVoice {
+  const header: ScoreHeader = {
+    ...baseHeader,
+    octave: percussion
+      ? baseHeader.octave
+      : referenceOctave(
+          notes.map((note) => note.pitch),
+          baseHeader,
+        ),
+  };
+  const events: ScoreEvent[] = [];
+  const pending = changes.filter((change) => change.beat > EPSILON);
+  let current = header;
+  let beat = 0;
+
+  const advanceTo = (target: number) => {
+    while (pending.length > 0 && pending[0].beat <= target + EPSILON) {
+      const change = pending.shift()!;
+      if (change.beat > beat + EPSILON) {
+        events.push({
+          type: "rest",
+          durationBeats: change.beat - beat,
+          notes: [],
+        });
+        beat = change.beat;
+      }
+      current = { ...current, ...change.changes };
+      events.push({
+        type: "change",
+        durationBeats: 0,
+        notes: [],
+        changes: change.changes,
+      });
+    }
+    if (target > beat + EPSILON) {
+      events.push({ type: "rest", durationBeats: target - beat, notes: [] });
+      beat = target;
+    }
+  };
+
+  const groups: PartNote[][] = [];
+  for (const note of [...notes].sort((a, b) => a.onset - b.onset)) {
+    const group = groups[groups.length - 1];
+    if (group && Math.abs(group[0].onset - note.onset) < EPSILON) {
+      group.push(note);
+    } else {
+      groups.push([note]);
+    }
+  }
+
+  for (const [index, group] of groups.entries()) {
+    const [first] = group;
+    if (first.onset < beat - EPSILON) {
+      continue;
+    }
+    advanceTo(first.onset);
+    const nextOnset = groups[index + 1]?.[0].onset ?? Number.POSITIVE_INFINITY;
+    const durationBeats = Math.min(
+      first.durationBeats,
+      nextOnset - first.onset,
+    );
+    if (durationBeats <= EPSILON) {
+      continue;
+    }
+    const pitches = Array.from(new Set(group.map((note) => note.pitch))).sort(
+      (a, b) => a - b,
+    );
+    const eventHeader = current;
+    const type = pitches.length > 1 ? "chord" : "note";
+    const sounds = (header: ScoreHeader) =>
+      percussion
+        ? { notes: [], drums: pitches }
+        : { notes: pitches.map((pitch) => midiNoteToSpec(pitch, header)) };
+    let event: ScoreEvent = {
+      type,
+      durationBeats,
+      ...sounds(eventHeader),
+      ...(first.graces.length > 0 && !percussion
+        ? {
+            graces: first.graces.map((pitch) =>
+              midiNoteToSpec(pitch, eventHeader),
+            ),
+          }
+        : {}),
+      ...(first.lyric ? { lyric: first.lyric } : {}),
+      ...(first.velocity !== undefined ? { velocity: first.velocity } : {}),
+      ...(first.accent ? { accent: true } : {}),
+      ...(first.articulation ? { articulation: first.articulation } : {}),
+      ...(first.ornament && !percussion ? { ornament: first.ornament } : {}),
+    };
+    const end = first.onset + durationBeats;
+    while (pending.length > 0 && pending[0].beat < end - EPSILON) {
+      const head = pending[0].beat - beat;
+      events.push({
+        ...event,
+        durationBeats: head,
+        ...(percussion ? {} : { tie: true }),
+      });
+      beat = pending[0].beat;
+      advanceTo(beat);
+      event = percussion
+        ? { type: "rest", durationBeats: 0, notes: [] }
+        : {
+            type,
+            durationBeats: 0,
+            ...sounds(current),
+            ...(event.velocity !== undefined
+              ? { velocity: event.velocity }
+              : {}),
+            ...(event.articulation
+              ? { articulation: event.articulation }
+              : {}),
+          };
+    }
+    events.push({ ...event, durationBeats: end - beat });
+    beat = end;
+  }
+  advanceTo(totalBeats);
+
+  return {
+    header,
+    events,
+    totalBeats: events.reduce((sum, event) => sum + event.durationBeats, 0),
+  };
+}
+
+function withTempoChanges(changes: PartChange[], source: PartChange[]) {
+  const merged = changes.map((change) => ({
+    beat: change.beat,
+    changes: { ...change.changes },
+  }));
+  if (merged.some((change) => change.changes.bpm !== undefined)) {
+    return merged;
+  }
+  for (const tempo of source) {
+    if (tempo.changes.bpm === undefined) {
+      continue;
+    }
+    const existing = merged.find(
+      (change) => Math.abs(change.beat - tempo.beat) < EPSILON,
+    );
+    if (existing) {
+      existing.changes.bpm = tempo.changes.bpm;
+    } else {
+      merged.push({ beat: tempo.beat, changes: { bpm: tempo.changes.bpm } });
+    }
+  }
+  return merged.sort((a, b) => a.beat - b.beat);
+}
+
+function readMusicXml(input: Buffer | string) {
+  const document = parseXml(readMusicXmlSource(input));
+  if (document.name === "score-timewise") {
+    throw new Error("暂不支持 score-timewise 格式的 MusicXML");
+  }
+  if (document.name !== "score-partwise") {
+    throw new Error("不是有效的 MusicXML 乐谱");
+  }
+  const partInfos = readPartList(document);
+  const parts = childrenNamed(document, "part");
+  if (parts.length === 0) {
+    throw new Error("MusicXML 中没有声部");
+  }
+
+  const readParts = parts.map((part) => {
+    const info = partInfos.get(part.attributes.id ?? "") ?? {
+      name: "",
+      program: 0,
+      volume: DEFAULT_HEADER.volume,
+      percussion: false,
+      drums: new Map<string, number>(),
+    };
+    return { info, ...readPart(part, info) };
+  });
+  const tempoSource = readParts.find((part) =>
+    part.changes.some((change) => change.changes.bpm !== undefined),
+  );
+
+  return readParts.map((part, index) => {
+    const { info, voices, totalBeats } = part;
+    const changes = withTempoChanges(part.changes, tempoSource?.changes ?? []);
+    const baseHeader: ScoreHeader = {
+      ...DEFAULT_HEADER,
+      ...Object.assign(
+        {},
+        ...changes
+          .filter((change) => change.beat <= EPSILON)
+          .map((change) => change.changes),
+      ),
+      kind: info.percussion ? "drums" : "melody",
+      program: info.percussion ? 0 : info.program,
+      volume: info.volume,
+    };
+    const voiceIds = Array.from(voices.keys()).sort(
+      (a, b) => Number(a) - Number(b) || a.localeCompare(b),
+    );
+    const scoreVoices = (voiceIds.length > 0 ? voiceIds : ["1"]).map((id) =>
+      buildVoice(
+        voices.get(id) ?? [],
+        changes,
+        baseHeader,
+        info.percussion,
+        totalBeats,
+      ),
+    );
+    const score: ParsedScore = {
+      header: scoreVoices[0].header,
+      voices: scoreVoices,
+      totalBeats: Math.max(...scoreVoices.map((voice) => voice.totalBeats)),
+    };
+    return { name: info.name || `Part ${index + 1}`, score };
+  });
+}
+
+export function musicXmlToScores(input: Buffer | string): ParsedScore[] {
+  return readMusicXml(input).map((part) => part.score);
+}
+
+export function musicXmlToTexts(input: Buffer | string) {
+  const parts = readMusicXml(input);
+  const voices = parts.flatMap((part) => part.score.voices);
+  const combinedText = scoreToText(
+    {
+      header: voices[0].header,
+      voices,
+      totalBeats: Math.max(...voices.map((voice) => voice.totalBeats)),
+    },
+    { compressRepeats: true },
+  );
+  return {
+    combinedText,
+    parts: parts.map((part, index) => ({
+      index,
+      name: part.name,
+      voices: part.score.voices.length,
+      text: scoreToText(part.score, { compressRepeats: true }),
+    })),
+  };
+}
+
+function escapeXml(text: string) {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+function tag(name: string, content: string | number = "", attributes = "") {
+  const open = attributes ? `${name} ${attributes}` : name;
+  return content === "" ? `<${open}/>` : `<${open}>${content}</${name}>`;
+}
+
+function denominatorOf(beats: number) {
+  for (let denominator = 1; denominator <= 960; denominator += 1) {
+    const scaled = beats * denominator;
+    if (Math.abs(scaled - Math.round(scaled)) < EPSILON) {
+      return denominator;
+    }
+  }
+  return 480;
+}
+
+function chooseDivisions(score: ParsedScore) {
+  const gcd = (a: number, b: number): number => (b === 0 ? a : gcd(b, a % b));
+  let divisions = 1;
+  for (const voice of score.voices) {
+    const lengths = [
+      barLengthBeats(voice.header.time),
+      ...voice.events.map((event) =>
+        event.type === "change" && event.changes?.time
+          ? barLengthBeats(event.changes.time)
+          : event.durationBeats,
+      ),
+    ];
+    for (const length of lengths) {
+      const denominator = denominatorOf(length);
+      divisions = (divisions * denominator) / gcd(divisions, denominator);
+      if (divisions > 3840) {
+        return 480;
+      }
+    }
+  }
+  return divisions;
+}
+
+function withTuplet(value: NoteValue, actual: number, normal: number) {
+  return actual > 1
+    ? { ...value, tuplet: [actual, normal] as [number, number] }
+    : value;
+}
+
+function matchNoteValue(beats: number): NoteValue | null {
+  for (const [actual, normal] of [[1, 1], ...TUPLET_RATIOS]) {
+    for (const [type, typeBeats] of NOTE_TYPES) {
+      for (let dots = 0; dots <= 2; dots += 1) {
+        const value = (typeBeats * (2 - 1 / 2 ** dots) * normal) / actual;
+        if (Math.abs(value - beats) < EPSILON) {
+          return withTuplet({ beats, type, dots }, actual, normal);
+        }
+      }
+    }
+  }
+  return null;
+}
+
+function splitBinary(beats: number) {
+  const candidates = NOTE_TYPES.flatMap(([type, typeBeats]) => [
+    { beats: typeBeats * 1.5, type, dots: 1 },
+    { beats: typeBeats, type, dots: 0 },
+  ]);
+  const values: NoteValue[] = [];
+  let remaining = beats;
+  while (remaining > EPSILON) {
+    const value = candidates.find(
+      (candidate) => candidate.beats <= remaining + EPSILON,
+    ) ?? { beats: remaining, type: "64th", dots: 0 };
+    values.push(value);
+    remaining -= value.beats;
+  }
+  return values;
+}
+
+function noteValues(beats: number): NoteValue[] {
+  const exact = matchNoteValue(beats);
+  if (exact) {
+    return [exact];
+  }
+  for (const [actual, normal] of [[1, 1], ...TUPLET_RATIOS]) {
+    const scaled = (beats * actual) / normal;
+    if (Math.abs(scaled * 16 - Math.round(scaled * 16)) < EPSILON) {
+      return splitBinary(scaled).map((value) =>
+        withTuplet(
+          { ...value, beats: (value.beats * normal) / actual },
+          actual,
+          normal,
+        ),
+      );
+    }
+  }
+  return splitBinary(beats);
+}
+
+export function spellNote(note: NoteSpec, header: ScoreHeader) {
+  const midi = degreeToMidi(
+    note.degree,
+    note.octaveShift,
+    note.accidental,
+    header,
+  );
+  const tonicStep = STEP_NAMES.indexOf(header.key[0]);
+  let step = STEP_NAMES[(tonicStep + note.degree - 1) % 7];
+  let alter = ((((midi - STEP_OFFSETS[step]) % 12) + 18) % 12) - 6;
+  if (Math.abs(alter) > 2) {
+    const pitchClass = midi % 12;
+    const shift = keySignatureSharps(header) >= 0 ? 1 : -1;
+    const natural = STEP_NAMES.find(
+      (name) => STEP_OFFSETS[name] === pitchClass,
+    );
+    step =
+      natural ??
+      STEP_NAMES.find(
+        (name) => STEP_OFFSETS[name] === (pitchClass - shift + 12) % 12,
+      )!;
+    alter = natural ? 0 : shift;
+  }
+  const octave = (midi - alter - STEP_OFFSETS[step]) / 12 - 1;
+  return { step, alter, octave, midi };
+}
+
+function pitchXml(note: NoteSpec, header: ScoreHeader) {
+  const { step, alter, octave } = spellNote(note, header);
+  return tag(
+    "pitch",
+    tag("step", step) +
+      (alter ? tag("alter", alter) : "") +
+      tag("octave", octave),
+  );
+}
+
+function xmlMode(mode: string) {
+  if (["aeolian", "harmonic", "melodic"].includes(mode)) {
+    return "minor";
+  }
+  const modes = ["dorian", "phrygian", "lydian", "mixolydian", "locrian"];
+  return modes.includes(mode) ? mode : "major";
+}
+
+function keyXml(header: ScoreHeader) {
+  return tag(
+    "key",
+    tag("fifths", keySignatureSharps(header)) +
+      tag("mode", xmlMode(header.mode)),
+  );
+}
+
+function timeXml(header: ScoreHeader) {
+  const { numerator, denominator } = parseTimeSignature(header.time) ?? {
+    numerator: 4,
+    denominator: 4,
+  };
+  return tag("time", tag("beats", numerator) + tag("beat-type", denominator));
+}
+
+function tempoXml(bpm: number) {
+  const metronome = tag(
+    "metronome",
+    tag("beat-unit", "quarter") + tag("per-minute", bpm),
+  );
+  return tag(
+    "direction",
+    tag("direction-type", metronome) + tag("sound", "", `tempo="${bpm}"`),
+    'placement="above"',
+  );
+}
+
+function dynamicsXml(mark: string) {
+  const dynamics = Math.round((DYNAMIC_VELOCITIES[mark] * 100) / 90);
+  return tag(
+    "direction",
+    tag("direction-type", tag("dynamics", tag(mark))) +
+      tag("sound", "", `dynamics="${dynamics}"`),
+    'placement="below"',
+  );
+}
+
+function clefXml(voice: ScoreVoice) {
+  if (voice.header.kind === "drums") {
+    return tag("clef", tag("sign", "percussion"));
+  }
+  const pitches = voice.events.flatMap((event) =>
+    event.notes.map((note) => spellNote(note, voice.header).midi),
+  );
+  const total = pitches.reduce((sum, pitch) => sum + pitch, 0);
+  const average = total / Math.max(1, pitches.length);
+  return pitches.length > 0 && average < 57
+    ? tag("clef", tag("sign", "F") + tag("line", 4))
+    : tag("clef", tag("sign", "G") + tag("line", 2));
+}
+
+function drumsUsed(voice: ScoreVoice) {
+  return Array.from(
+    new Set(voice.events.flatMap((event) => event.drums ?? [])),
+  ).sort((a, b) => a - b);
+}
+
+function partName(voice: ScoreVoice) {
+  if (voice.header.kind === "drums") {
+    return "Drums";
+  }
+  return GM_INSTRUMENTS[voice.header.program]?.name ?? "Part";
+}
+
+function writePart(voice: ScoreVoice, partId: string, divisions: number) {
+  const measures: string[] = [];
+  let content: string[] = [];
+  let current = { ...voice.header };
+  let barBeats = barLengthBeats(current.time);
+  let position = 0;
+  let tupletProgress = 0;
+  let glideOpen = false;
+  let syllableOpen = false;
+  let dynamic = "";
+  const percussion = current.kind === "drums";
+
+  content.push(
+    tag(
+      "attributes",
+      tag("divisions", divisions) +
+        keyXml(current) +
+        timeXml(current) +
+        clefXml(voice),
+    ),
+    tempoXml(current.bpm),
+  );
+
+  const closeMeasure = () => {
+    measures.push(
+      tag("measure", content.join(""), `number="${measures.length + 1}"`),
+    );
+    content = [];
+    position = 0;
+    tupletProgress = 0;
+  };
+
+  const tupletMarks = (value: NoteValue) => {
+    if (!value.tuplet) {
+      tupletProgress = 0;
+      return [];
+    }
+    const marks: string[] = [];
+    if (tupletProgress < EPSILON) {
+      marks.push(tag("tuplet", "", 'type="start"'));
+    }
+    tupletProgress += value.beats;
+    const typeBeats =
+      NOTE_TYPES.find(([type]) => type === value.type)?.[1] ?? 1;
+    if (tupletProgress >= typeBeats * value.tuplet[1] - EPSILON) {
+      marks.push(tag("tuplet", "", 'type="stop"'));
+      tupletProgress = 0;
+    }
+    return marks;
+  };
+
+  const writeValue = (
+    event: ScoreEvent,
+    value: NoteValue,
+    tieStop: boolean,
+    tieStart: boolean,
+  ) => {
+    const first = !tieStop;
+    const duration = tag("duration", Math.round(value.beats * divisions));
+    const shape =
+      tag("voice", 1) +
+      tag("type", value.type) +
+      "<dot/>".repeat(value.dots) +
+      (value.tuplet
+        ? tag(
+            "time-modification",
+            tag("actual-notes", value.tuplet[0]) +
+              tag("normal-notes", value.tuplet[1]),
+          )
+        : "");
+    const tuplet = tupletMarks(value);
+
+    if (event.type === "rest") {
+      const notations =
+        tuplet.length > 0 ? tag("notations", tuplet.join("")) : "";
+      content.push(tag("note", tag("rest") + duration + shape + notations));
+      return;
+    }
+
+    if (first && event.velocity !== undefined) {
+      const mark = nearestDynamic(event.velocity);
+      if (mark !== dynamic) {
+        content.push(dynamicsXml(mark));
+        dynamic = mark;
+      }
+    }
+
+    if (first && event.graces && !percussion) {
+      for (const grace of event.graces) {
+        content.push(
+          tag(
+            "note",
+            tag("grace", "", 'slash="yes"') +
+              pitchXml(grace, current) +
+              tag("voice", 1) +
+              tag("type", "eighth"),
+          ),
+        );
+      }
+    }
+
+    const sounds = percussion
+      ? (event.drums ?? []).map((drum) => {
+          const display = DRUM_DISPLAY[drum] ?? "C5";
+          return {
+            pitch: tag(
+              "unpitched",
+              tag("display-step", display[0]) +
+                tag("display-octave", display[1]),
+            ),
+            instrument: tag("instrument", "", `id="${partId}-I${drum + 1}"`),
+          };
+        })
+      : event.notes.map((note) => ({
+          pitch: pitchXml(note, current),
+          instrument: "",
+        }));
+
+    const marks: string[] = [...tuplet];
+    if (first && glideOpen) {
+      marks.push(tag("glissando", "", 'type="stop"'));
+    }
+    if (first && (event.articulation || event.accent)) {
+      marks.push(
+        tag(
+          "articulations",
+          (event.articulation ? tag(event.articulation) : "") +
+            (event.accent ? tag("accent") : ""),
+        ),
+      );
+    }
+    if (first && (event.ornament === "trill" || event.ornament === "mordent")) {
+      marks.push(
+        tag(
+          "ornaments",
+          tag(event.ornament === "trill" ? "trill-mark" : "mordent"),
+        ),
+      );
+    }
+    if (!tieStart && event.ornament === "glide") {
+      marks.push(tag("glissando", "", 'type="start" line-type="solid"'));
+    }
+    let lyric = "";
+    if (first && event.lyric) {
+      const continues = event.lyric.endsWith("-");
+      const syllabic = continues
+        ? syllableOpen
+          ? "middle"
+          : "begin"
+        : syllableOpen
+          ? "end"
+          : "single";
+      const text = continues ? event.lyric.slice(0, -1) : event.lyric;
+      lyric = tag(
+        "lyric",
+        tag("syllabic", syllabic) + tag("text", escapeXml(text)),
+        'number="1"',
+      );
+      syllableOpen = continues;
+    }
+
+    sounds.forEach((sound, index) => {
+      const notations = [
+        tieStop ? tag("tied", "", 'type="stop"') : "",
+        tieStart ? tag("tied", "", 'type="start"') : "",
+        ...(index === 0 ? marks : []),
+      ].join("");
+      content.push(
+        tag(
+          "note",
+          (index > 0 ? tag("chord") : "") +
+            sound.pitch +
+            duration +
+            (tieStop ? tag("tie", "", 'type="stop"') : "") +
+            (tieStart ? tag("tie", "", 'type="start"') : "") +
+            sound.instrument +
+            shape +
+            (notations ? tag("notations", notations) : "") +
+            (index === 0 ? lyric : ""),
+        ),
+      );
+    });
+    if (first) {
+      glideOpen = false;
+    }
+    if (!tieStart && event.ornament === "glide") {
+      glideOpen = true;
+    }
+  };
+
+  const writeEvent = (event: ScoreEvent, tiedIn: boolean) => {
+    const tiedOut = event.tie === true && event.type !== "rest";
+    let remaining = event.durationBeats;
+    let started = tiedIn;
+    while (remaining > EPSILON) {
+      const piece = Math.min(remaining, barBeats - position);
+      const values = noteValues(piece);
+      for (const [index, value] of values.entries()) {
+        const last =
+          remaining - piece <= EPSILON && index === values.length - 1;
+        writeValue(event, value, started, !last || tiedOut);
+        started = true;
+      }
+      position += piece;
+      remaining -= piece;
+      if (position >= barBeats - EPSILON) {
+        closeMeasure();
+      }
+    }
+  };
+
+  let previous: ScoreEvent | null = null;
+  for (const event of voice.events) {
+    if (event.type !== "change") {
+      const tiedIn =
+        previous?.tie === true &&
+        previous.type === event.type &&
+        JSON.stringify([previous.notes, previous.drums]) ===
+          JSON.stringify([event.notes, event.drums]);
+      writeEvent(event, tiedIn);
+      previous = event;
+      continue;
+    }
+    const changes = event.changes ?? {};
+    const next = { ...current, ...changes };
+    const timeChanged =
+      changes.time !== undefined && changes.time !== current.time;
+    const keyChanged = keyXml(next) !== keyXml(current);
+    if (timeChanged && position > EPSILON) {
+      closeMeasure();
+    }
+    current = next;
+    barBeats = barLengthBeats(current.time);
+    if (timeChanged || keyChanged) {
+      content.push(
+        tag(
+          "attributes",
+          (keyChanged ? keyXml(current) : "") +
+            (timeChanged ? timeXml(current) : ""),
+        ),
+      );
+    }
+    if (changes.bpm !== undefined) {
+      content.push(tempoXml(current.bpm));
+    }
+  }
+
+  if (position > EPSILON || measures.length === 0) {
+    writeEvent(
+      {
+        type: "rest",
+        durationBeats: barBeats - position,
+        notes: [],
+      },
+      false,
+    );
+  }
+  return measures;
+}
+
+function partListXml(voice: ScoreVoice, partId: string, index: number) {
+  const volume = tag("volume", Math.round(voice.header.volume * 100));
+  const name = escapeXml(partName(voice));
+  if (voice.header.kind === "drums") {
+    const drums = drumsUsed(voice);
+    return tag(
+      "score-part",
+      tag("part-name", name) +
+        drums
+          .map((drum) =>
+            tag(
+              "score-instrument",
+              tag("instrument-name", `Drum ${drum}`),
+              `id="${partId}-I${drum + 1}"`,
+            ),
+          )
+          .join("") +
+        drums
+          .map((drum) =>
+            tag(
+              "midi-instrument",
+              tag("midi-channel", 10) +
+                tag("midi-unpitched", drum + 1) +
+                volume,
+              `id="${partId}-I${drum + 1}"`,
+            ),
+          )
+          .join(""),
+      `id="${partId}"`,
+    );
+  }
+  const channel = Math.min(16, index < 9 ? index + 1 : index + 2);
+  return tag(
+    "score-part",
+    tag("part-name", name) +
+      tag(
+        "score-instrument",
+        tag("instrument-name", name),
+        `id="${partId}-I1"`,
+      ) +
+      tag(
+        "midi-instrument",
+        tag("midi-channel", channel) +
+          tag("midi-program", voice.header.program + 1) +
+          volume,
+        `id="${partId}-I1"`,
+      ),
+    `id="${partId}"`,
+  );
+}
+
+export function scoreToMusicXml(score: ParsedScore, title = "") {
+  const divisions = chooseDivisions(score);
+  const partIds = score.voices.map((_, index) => `P${index + 1}`);
+  const partList = score.voices.map((voice, index) =>
+    partListXml(voice, partIds[index], index),
+  );
+  const parts = score.voices.map((voice, index) =>
+    [
+      `<part id="${partIds[index]}">`,
+      ...writePart(voice, partIds[index], divisions),
+      "</part>",
+    ].join("\n"),
+  );
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8" standalone="no"?>',
+    '<!DOCTYPE score-partwise PUBLIC "-//Recordare//DTD MusicXML 4.0 ' +
+      'Partwise//EN" "http://www.musicxml.org/dtds/partwise.dtd">',
+    '<score-partwise version="4.0">',
+    ...(title ? [tag("work", tag("work-title", escapeXml(title)))] : []),
+    tag("identification", tag("encoding", tag("software", "crithmum"))),
+    tag("part-list", partList.join("")),
+    ...parts,
+    "</score-partwise>",
+    "",
+  ].join("\n");
+}
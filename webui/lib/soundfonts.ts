@@ -0,0 +1,285 @@
+import fs from "node:fs/promises";
+import path from "node:path";
+import crypto from "node:crypto";
+import type { FileHandle } from "node:fs/promises";
+
+export type SoundfontPreset = {
+  bank: number;
+  program: number;
+  name: string;
+};
+
+export type Soundfont = {
+  name: string;
+  size: number;
+  builtin: boolean;
+  presets: SoundfontPreset[];
+};
+
+export type SoundfontErrorCode =
+  | "invalid-name"
+  | "not-found"
+  | "invalid-file"
+  | "too-large"
+  | "exists";
+
+export class SoundfontError extends Error {
+  code: SoundfontErrorCode;
+
+  constructor(code: SoundfontErrorCode, message: string) {
+    super(message);
+    this.name = "SoundfontError";
+    this.code = code;
+  }
+}
+
+export const DEFAULT_SOUNDFONT = "default";
+
+const MAX_SOUNDFONT_BYTES = 256 * 1024 * 1024;
+
+const MAX_SOUNDFONT_MB = MAX_SOUNDFONT_BYTES / 1024 / 1024;
+
+const SOUNDFONT_NAME = /^[A-Za-z0-9][A-Za-z0-9_-]{0,63}$/;
+
+const PRESET_HEADER_SIZE = 38;
+
+const MAX_PRESET_HEADERS = 65536;
+
+type CachedPresets = {
+  mtimeMs: number;
+  size: number;
+  presets: SoundfontPreset[];
+};
+
+const presetCache = new Map<string, CachedPresets>();
+
+export function defaultSoundfontPath() {
+  return path.join(process.cwd(), "public", "piano.sf2");
+}
+
+function soundfontDir() {
+  return path.join(process.cwd(), ".soundfonts");
+}
+
+export function isSoundfontName(value: string) {
+  return SOUNDFONT_NAME.test(value);
+}
+
+function soundfontPath(name: string) {
+  if (name === DEFAULT_SOUNDFONT) {
+    return defaultSoundfontPath();
+  }
+  if (!isSoundfontName(name)) {
+    throw new SoundfontError("invalid-name", `音色库名称无效: ${name}`);
+  }
+  return path.join(soundfontDir(), `${name}.sf2`);
+}
+
+function invalidFile(): never {
+  throw new SoundfontError(
+    "invalid-file",
+    "不是有效的 SoundFont（SF2）文件",
+  );
+}
+
+async function readBytes(handle: FileHandle, offset: number, length: number) {
+  const buffer = Buffer.alloc(length);
+  const { bytesRead } = await handle.read(buffer, 0, length, offset);
+  if (bytesRead < length) {
+    invalidFile();
+  }
+  return buffer;
+}
+
+async function findChunk(
+  handle: FileHandle,
+  start: number,
+  end: number,
+  match: (id: string, offset: number) => Promise<boolean>,
+) {
+  let offset = start;
+  while (offset + 8 <= end) {
+    const header = await readBytes(handle, offset, 8);
+    const id = header.toString("latin1", 0, 4);
+    const size = header.readUInt32LE(4);
+    const dataStart = offset + 8;
+    if (dataStart + size > end) {
+      invalidFile();
+    }
+    if (await match(id, dataStart)) {
+      return { start: dataStart, size };
+    }
+    offset = dataStart + size + (size & 1);
+  }
+  return null;
+}
+
+function parsePresetHeaders(data: Buffer) {
+  const presets: SoundfontPreset[] = [];
+  const count = data.length / PRESET_HEADER_SIZE - 1;
+  for (let index = 0; index < count; index += 1) {
+    const offset = index * PRESET_HEADER_SIZE;
+    const rawName = data.toString("latin1", offset, offset + 20);
+    const end = rawName.indexOf("\0");
+    presets.push({
+      bank: data.readUInt16LE(offset + 22),
+      program: data.readUInt16LE(offset + 20),
+      name: (end >= 0 ? rawName.slice(0, end) : rawName).trim(),
+    });
+  }
+  return presets.sort((a, b) => a.bank - b.bank || a.program - b.program);
+}
+
+async function readPresets(filePath: string, fileSize: number) {
+  const handle = await fs.open(filePath, "r");
+  try {
+    const riff = await readBytes(handle, 0, 12);
+    if (
+      riff.toString("latin1", 0, 4) !== "RIFF" ||
+      riff.toString("latin1", 8, 12) !== "sfbk"
+    ) {
+      invalidFile();
+    }
+    const riffEnd = Math.min(8 + riff.readUInt32LE(4), fileSize);
+    const pdta = await findChunk(handle, 12, riffEnd, async (id, offset) => {
+      if (id !== "LIST") {
+        return false;
+      }
+      const type = await readBytes(handle, offset, 4);
+      return type.toString("latin1") === "pdta";
+    });
+    if (!pdta) {
+      invalidFile();
+    }
+    const phdr = await findChunk(
+      handle,
+      pdta.start + 4,
+      pdta.start + pdta.size,
+      async (id) => id === "phdr",
+    );
+    if (
+      !phdr ||
+      phdr.size % PRESET_HEADER_SIZE !== 0 ||
+      phdr.size < PRESET_HEADER_SIZE * 2 ||
+      phdr.size > PRESET_HEADER_SIZE * MAX_PRESET_HEADERS
+    ) {
+      invalidFile();
+    }
+    return parsePresetHeaders(await readBytes(handle, phdr.start, phdr.size));
+  } finally {
+    await handle.close();
+  }
+}
+
+async function describeSoundfont(
+  name: string,
+  filePath: string,
+): Promise<Soundfont | null> {
+  const stat = await fs.stat(filePath).catch(() => null);
+  if (!stat?.isFile()) {
+    return null;
+  }
+  let cached = presetCache.get(filePath);
+  if (!cached || cached.mtimeMs !== stat.mtimeMs || cached.size !== stat.size) {
+    const presets = await readPresets(filePath, stat.size).catch(() => null);
+    if (!presets) {
+      return null;
+    }
+    cached = { mtimeMs: stat.mtimeMs, size: stat.size, presets };
+    presetCache.set(filePath, cached);
+  }
+  return {
+    name,
+    size: stat.size,
+    builtin: name === DEFAULT_SOUNDFONT,
+    presets: cached.presets,
+  };
+}
+
+export async function listSoundfonts() {
+  const entries = await fs.readdir(soundfontDir()).catch(() => []);
+  const names = entries
+    .filter((entry) => entry.toLowerCase().endsWith(".sf2"))
+    .map((entry) => entry.slice(0, -4))
+    .filter((name) => isSoundfontName(name) && name !== DEFAULT_SOUNDFONT)
+    .sort((a, b) => a.localeCompare(b));
+
+  const soundfonts: Soundfont[] = [];
+  for (const name of [DEFAULT_SOUNDFONT, ...names]) {
+    const soundfont = await describeSoundfont(name, soundfontPath(name));
+    if (soundfont) {
+      soundfonts.push(soundfont);
+    }
+  }
+  return soundfonts;
+}
+
+export async function getSoundfont(name: string) {
+  const soundfont = await describeSoundfont(name, soundfontPath(name));
+  if (!soundfont) {
+    throw new SoundfontError("not-found", `未找到音色库: ${name}`);
+  }
+  return soundfont;
+}
+
+export async function resolveSoundfontPath(name?: string) {
+  if (!name || name === DEFAULT_SOUNDFONT) {
+    return undefined;
+  }
+  const filePath = soundfontPath(name);
+  const stat = await fs.stat(filePath).catch(() => null);
+  if (!stat?.isFile()) {
+    throw new SoundfontError("not-found", `未找到音色库: ${name}`);
+  }
+  return filePath;
+}
+
+export function checkSoundfontSize(size: number) {
+  if (size > MAX_SOUNDFONT_BYTES) {
+    throw new SoundfontError(
+      "too-large",
+      `音色库文件过大（上限 ${MAX_SOUNDFONT_MB} MB）`,
+    );
+  }
+}
+
+export async function saveSoundfont(
+  name: string,
+  data: Buffer,
+  options: { overwrite?: boolean } = {},
+) {
+  if (name === DEFAULT_SOUNDFONT || !isSoundfontName(name)) {
+    throw new SoundfontError("invalid-name", `音色库名称无效: ${name}`);
+  }
+  checkSoundfontSize(data.length);
+  const filePath = soundfontPath(name);
+  if (!options.overwrite) {
+    const existing = await fs.stat(filePath).catch(() => null);
+    if (existing) {
+      throw new SoundfontError("exists", `音色库已存在: ${name}`);
+    }
+  }
+
+  await fs.mkdir(soundfontDir(), { recursive: true });
+  const tempPath = path.join(soundfontDir(), `${crypto.randomUUID()}.tmp`);
+  await fs.writeFile(tempPath, data);
+  try {
+    await readPresets(tempPath, data.length);
+    await fs.rename(tempPath, filePath);
+  } catch (error) {
+    await fs.rm(tempPath, { force: true });
+    throw error;
+  }
+  return getSoundfont(name);
+}
+
+export async function deleteSoundfont(name: string) {
+  if (name === DEFAULT_SOUNDFONT) {
+    throw new SoundfontError("invalid-name", "不能删除内置音色库");
+  }
+  const filePath = await resolveSoundfontPath(name);
+  if (filePath) {
+    await fs.rm(filePath, { force: true });
+    presetCache.delete(filePath);
+  }
+}